@@ -0,0 +1,55 @@
+// Service worker: keeps the app shell available when the hall Wi-Fi drops. API responses are
+// not cached here; the dashboard keeps its own last-known state and queues actions itself.
+// Bumped when what is cached changes; activate drops every older cache.
+const CACHE = 'badminton-shell-v2'
+const SHELL = ['/', '/manifest.webmanifest', '/icon.svg', '/icon-maskable.svg']
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(SHELL)).then(() => self.skipWaiting()))
+})
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(k => k !== CACHE).map(k => caches.delete(k))))
+      .then(() => self.clients.claim()),
+  )
+})
+
+self.addEventListener('fetch', event => {
+  const { request } = event
+  const url = new URL(request.url)
+  // The API (including the event stream) always goes to the network, even on the same origin.
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return
+  if (url.pathname.startsWith('/api/') || request.headers.get('accept')?.includes('text/event-stream')) return
+
+  // Pages: the network first so a new build is picked up, the cached shell when offline.
+  // Every route is the same single-page app, so they all fall back to '/'.
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(res => {
+          if (res.ok) {
+            const copy = res.clone()
+            caches.open(CACHE).then(cache => cache.put('/', copy))
+          }
+          return res
+        })
+        .catch(() => caches.match('/')),
+    )
+    return
+  }
+
+  // Built assets have content hashes in their names, so a cached copy is never stale. Anything
+  // else outside the shell list is left to the network.
+  if (!url.pathname.startsWith('/assets/') && !SHELL.includes(url.pathname)) return
+  event.respondWith(
+    caches.match(request).then(cached => cached ?? fetch(request).then(res => {
+      if (res.ok) {
+        const copy = res.clone()
+        caches.open(CACHE).then(cache => cache.put(request, copy))
+      }
+      return res
+    })),
+  )
+})
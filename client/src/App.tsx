@@ -1,33 +1,464 @@
-import { BrowserRouter, Routes, Route, Link, useNavigate } from 'react-router-dom'
-import { useEffect, useState } from 'react'
+import { BrowserRouter, Routes, Route, Link, useNavigate, useParams, useSearchParams } from 'react-router-dom'
+import { useEffect, useRef, useState } from 'react'
 import axios from 'axios'
+import dayjs from 'dayjs'
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:4000'
 
+const OUTBOX_KEY = 'outbox'
+const CONFLICTS_KEY = 'outboxConflicts'
+const DASHBOARD_CACHE_KEY = 'dashboardCache'
+
+// Queued actions and the cached dashboard belong to whoever is signed in, so they go too.
+function clearAuth() {
+  localStorage.removeItem('token'); localStorage.removeItem('refreshToken'); localStorage.removeItem('user')
+  localStorage.removeItem(OUTBOX_KEY); localStorage.removeItem(CONFLICTS_KEY); localStorage.removeItem(DASHBOARD_CACHE_KEY)
+}
+
+function readStored<T>(key: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(key)
+    return stored ? JSON.parse(stored) : fallback
+  } catch {
+    return fallback
+  }
+}
+
+// What to tell the user about a failed request. Without a response the server was never reached.
+function errorMessage(e: unknown, fallback = 'Something went wrong') {
+  if (!axios.isAxiosError(e)) return fallback
+  if (!e.response) return 'Cannot reach the server. Check your connection and try again.'
+  if (e.response.status >= 500) return 'The server had a problem. Try again in a moment.'
+  return e.response.data?.error ?? fallback
+}
+
+const isOffline = (e: unknown) => axios.isAxiosError(e) && !e.response
+
+// Shared so that several requests failing at once trigger a single refresh; refresh
+// tokens are single-use, so a second concurrent refresh would sign the user out.
+let refreshing: Promise<string | null> | null = null
+
+function refreshAccessToken() {
+  refreshing ??= (async () => {
+    const refreshToken = localStorage.getItem('refreshToken')
+    if (!refreshToken) return null
+    try {
+      const { data } = await axios.post(`${API_URL}/api/auth/refresh`, { refreshToken })
+      localStorage.setItem('token', data.token); localStorage.setItem('refreshToken', data.refreshToken)
+      return data.token as string
+    } catch (e) {
+      // Only a refused refresh token ends the sign-in. A dropped connection or a server error
+      // keeps the tokens and the outbox; the caller sees the error and the action stays queued.
+      if (!axios.isAxiosError(e) || (e.response?.status !== 400 && e.response?.status !== 401)) throw e
+      clearAuth()
+      return null
+    }
+  })().finally(() => { refreshing = null })
+  return refreshing
+}
+
+// The signed-in account as login and registration return it.
+type AccountUser = PublicUser & { email: string }
+
 function useAuth() {
   const [token, setToken] = useState<string | null>(() => localStorage.getItem('token'))
-  const [user, setUser] = useState<any>(() => {
+  const [user, setUser] = useState<AccountUser | null>(() => {
     const stored = localStorage.getItem('user')
     return stored ? JSON.parse(stored) : null
   })
-  function saveAuth(t: string, u: any) {
+  function saveAuth(t: string, u: AccountUser, refreshToken?: string) {
     localStorage.setItem('token', t); localStorage.setItem('user', JSON.stringify(u));
+    if (refreshToken) localStorage.setItem('refreshToken', refreshToken)
     setToken(t); setUser(u)
   }
-  function logout() { localStorage.removeItem('token'); localStorage.removeItem('user'); setToken(null); setUser(null) }
-  const client = axios.create({ baseURL: API_URL, headers: token ? { Authorization: `Bearer ${token}` } : {} })
+  async function logout(everywhere = false) {
+    const refreshToken = localStorage.getItem('refreshToken')
+    try {
+      if (everywhere) await client.post('/api/auth/logout-all')
+      else if (refreshToken) await axios.post(`${API_URL}/api/auth/logout`, { refreshToken })
+    } finally {
+      clearAuth(); setToken(null); setUser(null)
+    }
+  }
+  const client = axios.create({ baseURL: API_URL })
+  // Read the token per request: a refresh may have replaced it since this render.
+  client.interceptors.request.use(config => {
+    const current = localStorage.getItem('token')
+    if (current) config.headers.Authorization = `Bearer ${current}`
+    return config
+  })
+  // Access tokens are short-lived; on a 401 swap the refresh token for a new pair and retry once.
+  client.interceptors.response.use(undefined, async error => {
+    const config = error.config
+    if (error.response?.status !== 401 || !config || config._retried) throw error
+    const fresh = await refreshAccessToken()
+    if (!fresh) { setToken(null); setUser(null); throw error }
+    setToken(fresh)
+    config._retried = true
+    return client.request(config)
+  })
   return { token, user, saveAuth, logout, client }
 }
 
+// An action taken while the server could not be reached; it waits in the outbox, in order,
+// and is sent when the connection returns.
+type OutboxItem = { id: string; label: string; url: string; body?: object; queuedAt: string }
+// An outbox action the server refused once it arrived, usually because the match or queue
+// changed in the meantime.
+type OutboxConflict = OutboxItem & { error: string }
+
+function useOutbox(client: ReturnType<typeof useAuth>['client'], onSynced: () => void) {
+  const [items, setItems] = useState<OutboxItem[]>(() => readStored(OUTBOX_KEY, []))
+  const [conflicts, setConflicts] = useState<OutboxConflict[]>(() => readStored(CONFLICTS_KEY, []))
+  const flushing = useRef(false)
+  const synced = useRef(onSynced)
+  useEffect(() => { synced.current = onSynced })
+
+  // localStorage is the source of truth, so a reload or a closed tab does not lose queued actions.
+  function store(nextItems: OutboxItem[], nextConflicts: OutboxConflict[]) {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(nextItems)); localStorage.setItem(CONFLICTS_KEY, JSON.stringify(nextConflicts))
+    setItems(nextItems); setConflicts(nextConflicts)
+  }
+
+  // Sends the action now if possible. Anything already waiting goes first, so a later action
+  // queues behind it rather than overtaking it. Refusals are thrown for the caller to show.
+  async function send(label: string, url: string, body?: object): Promise<'sent' | 'queued'> {
+    const queue = () => {
+      // Not crypto.randomUUID: that needs HTTPS, and a hall server may be plain HTTP on the LAN.
+      const item = { id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`, label, url, body, queuedAt: new Date().toISOString() }
+      store([...readStored<OutboxItem[]>(OUTBOX_KEY, []), item], readStored(CONFLICTS_KEY, []))
+      return 'queued' as const
+    }
+    if (readStored<OutboxItem[]>(OUTBOX_KEY, []).length) {
+      queue()
+      await flush()
+      return readStored<OutboxItem[]>(OUTBOX_KEY, []).length ? 'queued' : 'sent'
+    }
+    try {
+      await client.post(url, body)
+      return 'sent'
+    } catch (e) {
+      if (!isOffline(e)) throw e
+      return queue()
+    }
+  }
+
+  async function flush() {
+    if (flushing.current) return
+    flushing.current = true
+    let changed = false
+    try {
+      for (const item of readStored<OutboxItem[]>(OUTBOX_KEY, [])) {
+        let conflict: OutboxConflict | null = null
+        try {
+          await client.post(item.url, item.body)
+        } catch (e) {
+          // Still offline, or the server is struggling: leave it and the rest for the next try.
+          if (!axios.isAxiosError(e) || !e.response || e.response.status >= 500) break
+          conflict = { ...item, error: errorMessage(e, `Refused (${e.response.status})`) }
+        }
+        const conflicts = readStored<OutboxConflict[]>(CONFLICTS_KEY, [])
+        store(readStored<OutboxItem[]>(OUTBOX_KEY, []).filter(x => x.id !== item.id), conflict ? [...conflicts, conflict] : conflicts)
+        changed = true
+      }
+    } finally {
+      flushing.current = false
+    }
+    if (changed) synced.current()
+  }
+
+  function dismiss(id: string) {
+    store(readStored(OUTBOX_KEY, []), readStored<OutboxConflict[]>(CONFLICTS_KEY, []).filter(c => c.id !== id))
+  }
+
+  useEffect(() => {
+    flush()
+    window.addEventListener('online', flush)
+    // 'online' only says the device has a network, not that the server is reachable.
+    const timer = setInterval(() => { if (readStored<OutboxItem[]>(OUTBOX_KEY, []).length) flush() }, 15_000)
+    return () => { window.removeEventListener('online', flush); clearInterval(timer) }
+  }, [])
+
+  return { items, conflicts, send, flush, dismiss }
+}
+
+// Lists what is waiting to be sent and what the server refused.
+function OutboxPanel({ outbox }: { outbox: ReturnType<typeof useOutbox> }) {
+  if (!outbox.items.length && !outbox.conflicts.length) return null
+  return (
+    <section className="md:col-span-3 bg-white rounded shadow p-4 space-y-2 text-sm">
+      {outbox.items.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between">
+            <h2 className="font-semibold">Waiting to send</h2>
+            <button onClick={()=>outbox.flush()} className="text-blue-600">Retry now</button>
+          </div>
+          <ul className="text-gray-600">
+            {outbox.items.map(i => <li key={i.id}>{i.label} <span className="text-gray-400">· {dayjs(i.queuedAt).format('HH:mm')}</span></li>)}
+          </ul>
+        </div>
+      )}
+      {outbox.conflicts.map(c => (
+        <div key={c.id} className="bg-red-50 border border-red-300 rounded p-2 flex justify-between gap-2">
+          <span><b>{c.label}</b> was not applied: {c.error}</span>
+          <button onClick={()=>outbox.dismiss(c.id)} className="text-red-600">Dismiss</button>
+        </div>
+      ))}
+    </section>
+  )
+}
+
+// Shows when the device is offline and surfaces requests that failed without anyone
+// handling them, instead of leaving the page silently unchanged.
+function ConnectionStatus() {
+  const [online, setOnline] = useState(navigator.onLine)
+  const [error, setError] = useState('')
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine)
+    const onRejection = (e: PromiseRejectionEvent) => {
+      if (!axios.isAxiosError(e.reason)) return
+      e.preventDefault()
+      setError(errorMessage(e.reason))
+    }
+    window.addEventListener('online', update); window.addEventListener('offline', update)
+    window.addEventListener('unhandledrejection', onRejection)
+    return () => {
+      window.removeEventListener('online', update); window.removeEventListener('offline', update)
+      window.removeEventListener('unhandledrejection', onRejection)
+    }
+  }, [])
+  useEffect(() => {
+    if (!error) return
+    const timer = setTimeout(() => setError(''), 6000)
+    return () => clearTimeout(timer)
+  }, [error])
+  return (
+    <>
+      {!online && <div className="bg-gray-800 text-white text-sm text-center p-2">You're offline. Actions you take are saved and sent when the connection returns.</div>}
+      {error && (
+        <div className="fixed bottom-4 inset-x-4 md:left-auto md:w-96 z-50 bg-red-600 text-white text-sm rounded shadow p-3 flex justify-between gap-2">
+          <span>{error}</span>
+          <button onClick={()=>setError('')}>✕</button>
+        </div>
+      )}
+    </>
+  )
+}
+
+// Shown in place of a page whose first load failed.
+function LoadError({ error, onRetry }: { error: string; onRetry: () => void }) {
+  return (
+    <div className="p-6 text-sm space-y-2">
+      <p className="text-red-600">{error}</p>
+      <button onClick={onRetry} className="text-blue-600">Try again</button>
+    </div>
+  )
+}
+
+// Response shapes, following the server's selects. Dates arrive as ISO strings.
+type PublicUser = { id: string; username: string; rating: number; ratingDeviation: number; volatility: number; ratedMatches: number; role: 'ADMIN' | 'ORGANIZER' | 'PLAYER'; createdAt: string }
+
+type Court = { id: string; sessionId: string; number: number; name: string; isOpen: boolean; tier: string | null; kingP1Id: string | null; kingP2Id: string | null; kingWins: number }
+
+type Session = {
+  id: string
+  startTime: string
+  endTime: string
+  endedAt: string | null
+  isActive: boolean
+  courts: number
+  venueId: string | null
+  venue: { id: string; name: string } | null
+  courtList: Court[]
+  autoRequeue: boolean
+  requireCheckIn: boolean
+  noShowMinutes: number | null
+  advancedMinRating: number
+  intermediateMinRating: number
+  tierOverflow: 'STRICT' | 'ADJACENT' | 'ANY'
+  courtPolicy: 'ROTATE' | 'KING_OF_THE_COURT'
+  kingMaxWins: number
+}
+
+type Match = {
+  id: string
+  sessionId: string
+  court: number
+  status: 'SCHEDULED' | 'ONGOING' | 'FINISHED' | 'CANCELLED' | 'VOID'
+  p1Id: string; p2Id: string; p3Id: string; p4Id: string
+  p1: PublicUser; p2: PublicUser; p3: PublicUser; p4: PublicUser
+  p1PresentAt: string | null; p2PresentAt: string | null; p3PresentAt: string | null; p4PresentAt: string | null
+  winnerTeam: number | null
+  scores: string | null
+  resultStatus: 'PENDING' | 'CONFIRMED' | 'DISPUTED' | 'REENTRY' | null
+  reportedTeam: number | null
+  disputeReason: string | null
+  version: number
+  tournamentId: string | null
+  startedAt: string | null
+  endedAt: string | null
+  createdAt: string
+}
+
+type QueueEntry = { id: string; sessionId: string; userId: string; position: number; joinedAt: string; status: 'WAITING' | 'PAUSED'; partnerId: string | null; fixedPair: boolean; user: PublicUser }
+
+type Estimates = {
+  typicalMinutes: number
+  sampleSize: number
+  courts: { court: number; name?: string; status: string | null; elapsedMinutes: number | null; overdue: boolean }[]
+  players: { userId: string; username?: string; etaMinutes: number | null; position: number }[]
+}
+
+type SessionEvent =
+  | { type: 'queue.changed'; queue: QueueEntry[] }
+  | { type: 'match.scheduled'; matches: Match[] }
+  | { type: 'match.updated'; match: Match }
+  | { type: 'match.started'; match: Match }
+  | { type: 'match.result'; match: Match }
+  | { type: 'match.finished'; match: Match }
+  | { type: 'match.cancelled'; match: Match }
+  | { type: 'match.voided'; match: Match }
+  | { type: 'rating.changed'; changes: { userId: string; rating: number; change: number }[] }
+  | { type: 'tournament.updated'; tournamentId: string }
+  | { type: 'session.updated'; session: Session }
+  | { type: 'session.ended'; sessionId: string }
+
+const SESSION_EVENT_TYPES: SessionEvent['type'][] = ['queue.changed', 'match.scheduled', 'match.updated', 'match.started', 'match.result', 'match.finished', 'match.cancelled', 'match.voided', 'rating.changed', 'tournament.updated', 'session.updated', 'session.ended']
+
+// Subscribes to the session's event stream. EventSource reconnects on its own;
+// onResync runs after every reconnect so anything missed while offline is refetched.
+function useSessionEvents(sessionId: string | undefined, onEvent: (e: SessionEvent) => void, onResync: () => void) {
+  const handlers = useRef({ onEvent, onResync })
+  useEffect(() => { handlers.current = { onEvent, onResync } })
+  useEffect(() => {
+    if (!sessionId) return
+    const source = new EventSource(`${API_URL}/api/session/${sessionId}/events`)
+    let opened = false
+    source.onopen = () => {
+      if (opened) handlers.current.onResync()
+      opened = true
+    }
+    const listener = (msg: MessageEvent) => handlers.current.onEvent(JSON.parse(msg.data))
+    SESSION_EVENT_TYPES.forEach(t => source.addEventListener(t, listener))
+    return () => source.close()
+  }, [sessionId])
+}
+
+function upsertMatches(list: Match[], incoming: Match[]) {
+  const byId = new Map(incoming.map(m => [m.id, m]))
+  const merged = list.map(m => byId.get(m.id) ?? m)
+  const fresh = incoming.filter(m => !list.some(x => x.id === m.id))
+  return [...fresh, ...merged]
+}
+
+// "21-15 18-21 21-19" -> [[21, 15], [18, 21], [21, 19]]
+function parseScoreInput(text: string) {
+  const games = text.trim().split(/[\s,]+/).filter(Boolean)
+  return games.map(g => g.split('-').map(Number))
+}
+
+const SLOTS = ['p1', 'p2', 'p3', 'p4'] as const
+
+function mySlot(m: Match, userId?: string) {
+  return SLOTS.find(s => m[`${s}Id` as const] === userId) ?? null
+}
+
+// Names in a match, with a tick for players who have confirmed they are at the court.
+function MatchPlayers({ match }: { match: Match }) {
+  const name = (s: typeof SLOTS[number]) => (
+    <span>{match[s].username}{match.status === 'SCHEDULED' && match[`${s}PresentAt` as const] && <span className="text-green-600" title="Here"> ✓</span>}</span>
+  )
+  return <div className="font-medium">{name('p1')} & {name('p2')} vs {name('p3')} & {name('p4')}</div>
+}
+
+function teamOf(m: Match, userId?: string) {
+  if (m.p1Id === userId || m.p2Id === userId) return 1
+  if (m.p3Id === userId || m.p4Id === userId) return 2
+  return null
+}
+
+function MatchResult({ match, userId, isOrganizer, onAction }: { match: Match; userId?: string; isOrganizer: boolean; onAction: (path: string, body?: object) => void }) {
+  const [scores, setScores] = useState('')
+  const team = teamOf(match, userId)
+  if (!team && !isOrganizer) return null
+  if (match.status === 'SCHEDULED') {
+    return (
+      <div className="flex gap-2">
+        <button onClick={()=>onAction('start')} className="text-xs bg-blue-600 text-white px-2 py-1 rounded">Start</button>
+        {isOrganizer && <button onClick={()=>onAction('cancel')} className="text-xs bg-gray-500 text-white px-2 py-1 rounded">Cancel</button>}
+      </div>
+    )
+  }
+  if (match.status !== 'ONGOING' && match.status !== 'FINISHED') return null
+
+  function report(path: string, winnerTeam: number) {
+    onAction(path, scores.trim() ? { winnerTeam, scores: parseScoreInput(scores) } : { winnerTeam })
+  }
+  const entry = (path: string) => (
+    <div className="flex gap-2 items-center">
+      <input className="border rounded px-1 py-0.5 text-xs w-28" placeholder="21-15 18-21 21-19" value={scores} onChange={e=>setScores(e.target.value)} />
+      <button onClick={()=>report(path, 1)} className="text-xs bg-green-600 text-white px-2 py-1 rounded">Team 1 Won</button>
+      <button onClick={()=>report(path, 2)} className="text-xs bg-green-600 text-white px-2 py-1 rounded">Team 2 Won</button>
+    </div>
+  )
+  const reported = `Team ${match.winnerTeam} won${match.scores ? ` (${match.scores.replaceAll(',', ' ')})` : ''}`
+
+  if (match.status === 'FINISHED') {
+    if (!isOrganizer || match.tournamentId) return null
+    if (match.resultStatus === 'REENTRY') {
+      return (
+        <div className="space-y-1 text-xs">
+          <div className="text-amber-600">Result undone · enter it again</div>
+          {entry('resolve')}
+        </div>
+      )
+    }
+    if (match.resultStatus !== 'CONFIRMED') return null
+    return <button onClick={()=>window.confirm('Undo this result and revert the rating changes?') && onAction('undo-result')} className="text-xs bg-gray-500 text-white px-2 py-1 rounded">Undo result</button>
+  }
+  if (match.resultStatus === 'PENDING') {
+    const canConfirm = isOrganizer || (team && team !== match.reportedTeam)
+    return (
+      <div className="flex gap-2 items-center text-xs">
+        <span className="text-gray-600">{reported} · pending</span>
+        {canConfirm && <button onClick={()=>onAction('confirm')} className="bg-green-600 text-white px-2 py-1 rounded">Confirm</button>}
+        {team && team !== match.reportedTeam && <button onClick={()=>onAction('dispute', { reason: window.prompt('What is wrong with this result?') ?? undefined })} className="bg-red-600 text-white px-2 py-1 rounded">Dispute</button>}
+      </div>
+    )
+  }
+  if (match.resultStatus === 'DISPUTED') {
+    return (
+      <div className="space-y-1 text-xs">
+        <div className="text-red-600">{reported} · disputed{match.disputeReason ? `: ${match.disputeReason}` : ''}</div>
+        {isOrganizer && entry('resolve')}
+      </div>
+    )
+  }
+  return (
+    <div className="flex gap-2 items-center">
+      {entry('finish')}
+      {isOrganizer && <button onClick={()=>onAction('void')} className="text-xs bg-gray-500 text-white px-2 py-1 rounded">Void</button>}
+    </div>
+  )
+}
+
 function Login() {
   const { saveAuth } = useAuth()
   const nav = useNavigate()
   const [form, setForm] = useState({ emailOrUsername: '', password: '' })
+  const [busy, setBusy] = useState(false)
   async function onSubmit(e: React.FormEvent) {
     e.preventDefault()
-    const { data } = await axios.post(`${API_URL}/api/auth/login`, form)
-    saveAuth(data.token, data.user)
-    nav('/')
+    setBusy(true)
+    try {
+      const { data } = await axios.post(`${API_URL}/api/auth/login`, form)
+      saveAuth(data.token, data.user, data.refreshToken)
+      nav('/')
+    } catch (e) {
+      window.alert(errorMessage(e, 'Could not sign in'))
+    } finally {
+      setBusy(false)
+    }
   }
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 p-6">
@@ -35,8 +466,9 @@ function Login() {
         <h1 className="text-xl font-semibold">Login</h1>
         <input className="w-full border rounded p-2" placeholder="Email or Username" value={form.emailOrUsername} onChange={e=>setForm(f=>({...f, emailOrUsername: e.target.value}))} />
         <input type="password" className="w-full border rounded p-2" placeholder="Password" value={form.password} onChange={e=>setForm(f=>({...f, password: e.target.value}))} />
-        <button className="w-full bg-blue-600 text-white rounded p-2">Sign in</button>
+        <button disabled={busy} className="w-full bg-blue-600 text-white rounded p-2 disabled:opacity-50">{busy ? 'Signing in…' : 'Sign in'}</button>
         <p className="text-sm text-gray-500">No account? <Link to="/signup" className="text-blue-600">Create one</Link></p>
+        <p className="text-sm text-gray-500"><Link to="/forgot-password" className="text-blue-600">Forgot your password?</Link></p>
       </form>
     </div>
   )
@@ -46,11 +478,19 @@ function Signup() {
   const { saveAuth } = useAuth()
   const nav = useNavigate()
   const [form, setForm] = useState({ email: '', username: '', password: '' })
+  const [busy, setBusy] = useState(false)
   async function onSubmit(e: React.FormEvent) {
     e.preventDefault()
-    const { data } = await axios.post(`${API_URL}/api/auth/signup`, form)
-    saveAuth(data.token, data.user)
-    nav('/')
+    setBusy(true)
+    try {
+      const { data } = await axios.post(`${API_URL}/api/auth/signup`, form)
+      saveAuth(data.token, data.user, data.refreshToken)
+      nav('/')
+    } catch (e) {
+      window.alert(errorMessage(e, 'Could not create the account'))
+    } finally {
+      setBusy(false)
+    }
   }
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 p-6">
@@ -59,55 +499,328 @@ function Signup() {
         <input className="w-full border rounded p-2" placeholder="Email" value={form.email} onChange={e=>setForm(f=>({...f, email: e.target.value}))} />
         <input className="w-full border rounded p-2" placeholder="Username" value={form.username} onChange={e=>setForm(f=>({...f, username: e.target.value}))} />
         <input type="password" className="w-full border rounded p-2" placeholder="Password" value={form.password} onChange={e=>setForm(f=>({...f, password: e.target.value}))} />
-        <button className="w-full bg-blue-600 text-white rounded p-2">Create account</button>
+        <button disabled={busy} className="w-full bg-blue-600 text-white rounded p-2 disabled:opacity-50">{busy ? 'Creating account…' : 'Create account'}</button>
         <p className="text-sm text-gray-500">Have an account? <Link to="/login" className="text-blue-600">Sign in</Link></p>
       </form>
     </div>
   )
 }
 
+function ForgotPassword() {
+  const [email, setEmail] = useState('')
+  const [sent, setSent] = useState(false)
+  const [busy, setBusy] = useState(false)
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setBusy(true)
+    try {
+      await axios.post(`${API_URL}/api/auth/password/forgot`, { email })
+      setSent(true)
+    } catch (e) {
+      window.alert(errorMessage(e, 'Enter a valid email address'))
+    } finally {
+      setBusy(false)
+    }
+  }
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-6">
+      <form onSubmit={onSubmit} className="bg-white rounded-lg shadow p-6 w-full max-w-sm space-y-4">
+        <h1 className="text-xl font-semibold">Reset password</h1>
+        {sent ? <p className="text-sm">If that address belongs to an account, a reset link is on its way.</p> : (
+          <>
+            <input className="w-full border rounded p-2" placeholder="Email" value={email} onChange={e=>setEmail(e.target.value)} />
+            <button disabled={busy} className="w-full bg-blue-600 text-white rounded p-2 disabled:opacity-50">{busy ? 'Sending…' : 'Send reset link'}</button>
+          </>
+        )}
+        <p className="text-sm text-gray-500"><Link to="/login" className="text-blue-600">Back to sign in</Link></p>
+      </form>
+    </div>
+  )
+}
+
+function ResetPassword() {
+  const nav = useNavigate()
+  const [params] = useSearchParams()
+  const token = params.get('token') ?? ''
+  const [password, setPassword] = useState('')
+  const [busy, setBusy] = useState(false)
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setBusy(true)
+    try {
+      await axios.post(`${API_URL}/api/auth/password/reset`, { token, password })
+      window.alert('Password changed. Sign in with your new password.')
+      nav('/login')
+    } catch (e) {
+      window.alert(errorMessage(e, 'Passwords need at least 6 characters'))
+    } finally {
+      setBusy(false)
+    }
+  }
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-6">
+      <form onSubmit={onSubmit} className="bg-white rounded-lg shadow p-6 w-full max-w-sm space-y-4">
+        <h1 className="text-xl font-semibold">Choose a new password</h1>
+        <input type="password" className="w-full border rounded p-2" placeholder="New password" value={password} onChange={e=>setPassword(e.target.value)} />
+        <button disabled={busy} className="w-full bg-blue-600 text-white rounded p-2 disabled:opacity-50">{busy ? 'Saving…' : 'Save password'}</button>
+      </form>
+    </div>
+  )
+}
+
+type Venue = { id: string; name: string; courts: { id: string; number: number; name: string }[] }
+
+function StartSessionForm({ client, onStarted }: { client: ReturnType<typeof useAuth>['client']; onStarted: () => void }) {
+  const [venues, setVenues] = useState<Venue[]>([])
+  const [form, setForm] = useState({ venueId: '', courts: '', durationHours: '3', startTime: '' })
+  useEffect(() => { client.get<Venue[]>('/api/venues').then(res => setVenues(res.data)) }, [])
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    await client.post('/api/session/start', {
+      venueId: form.venueId || undefined,
+      courts: form.courts ? Number(form.courts) : undefined,
+      durationHours: Number(form.durationHours),
+      // Leaving the start time empty starts the session now.
+      startTime: form.startTime ? new Date(form.startTime).toISOString() : undefined,
+    })
+    onStarted()
+  }
+  return (
+    <form onSubmit={onSubmit} className="space-y-2 text-sm">
+      <select className="w-full border rounded p-1" value={form.venueId} onChange={e=>setForm(f=>({...f, venueId: e.target.value}))}>
+        <option value="">No venue</option>
+        {venues.map(v => <option key={v.id} value={v.id}>{v.name} ({v.courts.length} courts)</option>)}
+      </select>
+      <div className="flex gap-2">
+        <input className="w-1/2 border rounded p-1" type="number" min={1} max={20} placeholder="Courts" value={form.courts} onChange={e=>setForm(f=>({...f, courts: e.target.value}))} />
+        <input className="w-1/2 border rounded p-1" type="number" min={1} max={6} placeholder="Hours" value={form.durationHours} onChange={e=>setForm(f=>({...f, durationHours: e.target.value}))} />
+      </div>
+      <input className="w-full border rounded p-1" type="datetime-local" value={form.startTime} onChange={e=>setForm(f=>({...f, startTime: e.target.value}))} />
+      <button className="w-full bg-blue-600 text-white rounded p-1">{form.startTime ? 'Schedule session' : 'Start session now'}</button>
+    </form>
+  )
+}
+
+function WaitTimes({ estimates }: { estimates: Estimates | null }) {
+  if (!estimates) return null
+  const mins = (m: number) => m < 1 ? 'now' : `~${Math.round(m)} min`
+  return (
+    <section className="bg-white rounded shadow p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-semibold">Wait Times</h2>
+        <span className="text-xs text-gray-500">typical match {Math.round(estimates.typicalMinutes)} min{estimates.sampleSize ? ` (${estimates.sampleSize} played)` : ''}</span>
+      </div>
+      <ul className="space-y-1 mb-3">
+        {estimates.courts.map(c => (
+          <li key={c.court} className={`text-sm flex justify-between ${c.overdue ? 'text-red-600' : ''}`}>
+            <span>{c.name ?? `Court ${c.court}`}</span>
+            <span>{c.status === 'ONGOING' ? `${Math.round(c.elapsedMinutes ?? 0)} min${c.overdue ? ' · over time' : ''}` : c.status === 'SCHEDULED' ? 'about to start' : 'free'}</span>
+          </li>
+        ))}
+      </ul>
+      <ol className="space-y-1 list-decimal pl-5">
+        {estimates.players.map(p => (
+          <li key={p.userId} className="text-sm flex justify-between">
+            <span>{p.username}</span>
+            <span className="text-gray-500">{p.etaMinutes === null ? 'needs more players' : mins(p.etaMinutes)}</span>
+          </li>
+        ))}
+      </ol>
+    </section>
+  )
+}
+
+function PairForm({ queue, onPair }: { queue: QueueEntry[]; onPair: (userIds: [string, string]) => void }) {
+  const [a, setA] = useState('')
+  const [b, setB] = useState('')
+  const free = queue.filter(q => !q.fixedPair)
+  return (
+    <div className="flex gap-1 mt-3 text-xs">
+      <select className="border rounded p-1 flex-1" value={a} onChange={e=>setA(e.target.value)}>
+        <option value="">Player</option>
+        {free.map(q => <option key={q.userId} value={q.userId}>{q.user.username}</option>)}
+      </select>
+      <select className="border rounded p-1 flex-1" value={b} onChange={e=>setB(e.target.value)}>
+        <option value="">Partner</option>
+        {free.filter(q => q.userId !== a).map(q => <option key={q.userId} value={q.userId}>{q.user.username}</option>)}
+      </select>
+      <button disabled={!a || !b} onClick={()=>{ onPair([a, b]); setA(''); setB('') }} className="bg-gray-800 text-white rounded px-2 disabled:opacity-50">Fix pair</button>
+    </div>
+  )
+}
+
+// What the dashboard last showed, so that opening it without a connection still shows the
+// session, queue and matches as they were.
+type DashboardCache = { session: Session | null; sessions: Session[]; upcoming: Session[]; queue: QueueEntry[]; matches: Match[]; leaderboard: PublicUser[]; checkedIn: boolean; savedAt: string }
+
+const QUEUE_ACTION_LABELS: Record<string, string> = { join: 'Join the queue', leave: 'Leave the queue', pause: 'Take a break', resume: 'Back from a break', partner: 'Partner request', pair: 'Pair players' }
+const MATCH_ACTION_LABELS: Record<string, string> = { present: "I'm here", start: 'Start', finish: 'Result', confirm: 'Confirm result', dispute: 'Dispute result', cancel: 'Cancel', void: 'Void', resolve: 'Result', 'undo-result': 'Undo result' }
+
 function Dashboard() {
-  const { token, user, client, logout } = useAuth()
-  const [session, setSession] = useState<any>(null)
-  const [queue, setQueue] = useState<any[]>([])
-  const [matches, setMatches] = useState<any[]>([])
-  const [leaderboard, setLeaderboard] = useState<any[]>([])
-
-  async function ensureSession() {
-    const { data } = await client.get('/api/session/active')
-    if (data) { setSession(data) } else {
-      const res = await client.post('/api/session/start', { courts: 5, durationHours: 3 })
-      setSession(res.data)
-    }
-  }
-  async function refreshAll(sid: string) {
-    const [q, m, l] = await Promise.all([
-      client.get(`/api/session/${sid}/queue`),
-      client.get(`/api/session/${sid}/matches`),
-      client.get('/api/leaderboard')
-    ])
-    setQueue(q.data); setMatches(m.data); setLeaderboard(l.data)
+  const { token, user, client, logout, saveAuth } = useAuth()
+  const [cache] = useState(() => readStored<DashboardCache | null>(DASHBOARD_CACHE_KEY, null))
+  const [session, setSession] = useState<Session | null>(cache?.session ?? null)
+  const [sessions, setSessions] = useState<Session[]>(cache?.sessions ?? [])
+  const [upcoming, setUpcoming] = useState<Session[]>(cache?.upcoming ?? [])
+  const [queue, setQueue] = useState<QueueEntry[]>(cache?.queue ?? [])
+  const [matches, setMatches] = useState<Match[]>(cache?.matches ?? [])
+  const [leaderboard, setLeaderboard] = useState<PublicUser[]>(cache?.leaderboard ?? [])
+  const [estimates, setEstimates] = useState<Estimates | null>(null)
+  const [checkedIn, setCheckedIn] = useState(cache?.checkedIn ?? false)
+  // 'cached' until the server has answered; 'stale' once a load fails for lack of a connection.
+  const [freshness, setFreshness] = useState<'loading' | 'cached' | 'live' | 'stale'>(cache ? 'cached' : 'loading')
+  const [loadError, setLoadError] = useState('')
+  const outbox = useOutbox(client, () => { if (session) refreshAll(session.id) })
+
+  const isOrganizer = user?.role === 'ADMIN' || user?.role === 'ORGANIZER'
+
+  // Loads that fail because the server cannot be reached keep what is on screen and mark it
+  // stale; anything else is a real error and is left to surface.
+  async function track(load: () => Promise<void>) {
+    try {
+      await load()
+      setFreshness('live'); setLoadError('')
+    } catch (e) {
+      if (!isOffline(e)) throw e
+      setFreshness(f => f === 'loading' ? f : 'stale')
+      setLoadError(errorMessage(e))
+    }
+  }
+  function loadSessions() {
+    return track(async () => {
+      const [active, scheduled] = await Promise.all([
+        client.get<Session[]>('/api/sessions?status=active'),
+        client.get<Session[]>('/api/sessions?status=scheduled'),
+      ])
+      setSessions(active.data); setUpcoming(scheduled.data)
+      setSession(current => active.data.find(x => x.id === current?.id) ?? active.data[0] ?? null)
+    })
+  }
+  async function endSession() {
+    if (!session || !window.confirm('End this session? Scheduled matches are cancelled and the queue is cleared.')) return
+    await client.post(`/api/session/${session.id}/end`)
+    await loadSessions()
+  }
+  const myEntry = queue.find(q => q.userId === user?.id)
+  function usernameOf(userId: string | null) {
+    return queue.find(q => q.userId === userId)?.user.username ?? leaderboard.find(u => u.id === userId)?.username ?? 'someone'
   }
-  async function joinQueue() {
+  function courtName(number: number) {
+    return session?.courtList?.find(c => c.number === number)?.name ?? `Court ${number}`
+  }
+  function refreshAll(sid: string) {
+    return track(async () => {
+      const [q, m, l] = await Promise.all([
+        client.get<QueueEntry[]>(`/api/session/${sid}/queue`),
+        client.get<Match[]>(`/api/session/${sid}/matches`),
+        client.get<PublicUser[]>('/api/leaderboard')
+      ])
+      setQueue(q.data); setMatches(m.data); setLeaderboard(l.data)
+    })
+  }
+  // Queue and result actions go through the outbox: offline they wait there instead of failing.
+  async function queueAction(path: string, body?: object) {
     if (!session) return
-    await client.post(`/api/session/${session.id}/queue/join`)
+    try {
+      if (await outbox.send(QUEUE_ACTION_LABELS[path] ?? path, `/api/session/${session.id}/queue/${path}`, body) === 'queued') return
+    } catch (e) {
+      window.alert(errorMessage(e))
+    }
     await refreshAll(session.id)
   }
-  async function generate() {
+  function loadCheckIn(sid: string) {
+    return track(async () => {
+      const { data } = await client.get(`/api/session/${sid}/attendance/me`)
+      setCheckedIn(data.checkedIn)
+    })
+  }
+  async function checkIn(code: string) {
     if (!session) return
-    await client.post(`/api/session/${session.id}/generate`)
+    try {
+      await client.post(`/api/session/${session.id}/checkin`, { code })
+    } catch (e) {
+      window.alert(errorMessage(e))
+    }
+    await loadCheckIn(session.id)
+  }
+  async function checkOut() {
+    if (!session || !window.confirm('Leaving the hall takes you out of the queue.')) return
+    await client.post(`/api/session/${session.id}/checkout`)
+    await Promise.all([loadCheckIn(session.id), refreshAll(session.id)])
+  }
+  async function unpair(userId: string) {
+    if (!session) return
+    await client.delete(`/api/session/${session.id}/queue/pair/${userId}`)
     await refreshAll(session.id)
   }
-  async function finishMatch(id: string, winnerTeam: number) {
-    await client.post(`/api/match/${id}/finish`, { winnerTeam })
+  async function download(path: string, filename: string) {
+    const { data } = await client.get(path, { responseType: 'blob' })
+    const url = URL.createObjectURL(data)
+    const a = document.createElement('a')
+    a.href = url; a.download = filename; a.click()
+    URL.revokeObjectURL(url)
+  }
+  async function matchAction(match: Match, path: string, body?: { winnerTeam?: number }) {
+    const label = `${MATCH_ACTION_LABELS[path] ?? path}${body?.winnerTeam ? `: team ${body.winnerTeam} won` : ''} · ${courtName(match.court)}`
+    try {
+      // Sending the version we rendered makes the server reject actions on a stale view, which
+      // is also what turns a queued result into a conflict if the match moved on meanwhile.
+      if (await outbox.send(label, `/api/match/${match.id}/${path}`, { ...body, version: match.version }) === 'queued') return
+    } catch (e) {
+      window.alert(errorMessage(e))
+    }
     if (session) await refreshAll(session.id)
   }
 
+  function applyEvent(e: SessionEvent) {
+    switch (e.type) {
+      case 'queue.changed': setQueue(e.queue); break
+      case 'match.scheduled': setMatches(ms => upsertMatches(ms, e.matches)); break
+      case 'match.updated':
+      case 'match.started':
+      case 'match.result':
+      case 'match.finished':
+      case 'match.cancelled':
+      case 'match.voided': setMatches(ms => upsertMatches(ms, [e.match])); break
+      case 'rating.changed': {
+        const byUser = new Map(e.changes.map(c => [c.userId, c.rating]))
+        setLeaderboard(l => l.map(u => ({ ...u, rating: byUser.get(u.id) ?? u.rating })).sort((a, b) => b.rating - a.rating))
+        const mine = user ? byUser.get(user.id) : undefined
+        if (token && user && mine !== undefined) saveAuth(token, { ...user, rating: mine })
+        break
+      }
+      case 'session.updated': setSession(e.session); break
+      case 'session.ended': setSession(null); loadSessions(); break
+    }
+  }
+  useSessionEvents(session?.id, applyEvent, () => { if (session) refreshAll(session.id); outbox.flush() })
+
   useEffect(() => {
     if (!token) return
-    ;(async () => { await ensureSession() })()
+    ;(async () => { await loadSessions() })()
   }, [token])
-  useEffect(() => { if (session) refreshAll(session.id) }, [session])
+  useEffect(() => { if (session) { refreshAll(session.id); loadCheckIn(session.id) } }, [session?.id])
+  useEffect(() => {
+    if (freshness !== 'live') return
+    const saved: DashboardCache = { session, sessions, upcoming, queue, matches, leaderboard, checkedIn, savedAt: new Date().toISOString() }
+    localStorage.setItem(DASHBOARD_CACHE_KEY, JSON.stringify(saved))
+  }, [freshness, session, sessions, upcoming, queue, matches, leaderboard, checkedIn])
+  // Estimates move with the clock as well as with the queue, so poll them too. While offline
+  // the last estimates stay up.
+  useEffect(() => {
+    if (!session) return
+    const load = () => client.get<Estimates>(`/api/session/${session.id}/estimates`).then(res => setEstimates(res.data)).catch(e => { if (!isOffline(e)) throw e })
+    load()
+    const timer = setInterval(load, 30_000)
+    return () => clearInterval(timer)
+  }, [session?.id, queue, matches])
+
+  function retryLoad() {
+    loadSessions()
+    if (session) refreshAll(session.id)
+  }
+  const joinQueued = session && outbox.items.some(i => i.url === `/api/session/${session.id}/queue/join`)
 
   if (!token) return (
     <div className="min-h-screen flex items-center justify-center">
@@ -118,31 +831,76 @@ function Dashboard() {
   return (
     <div className="min-h-screen bg-gray-50">
       <header className="flex items-center justify-between p-4 bg-white shadow">
-        <h1 className="font-semibold">Badminton Scheduler</h1>
         <div className="flex items-center gap-3">
+          <h1 className="font-semibold">Badminton Scheduler</h1>
+          {sessions.length > 1 && (
+            <select className="text-sm border rounded p-1" value={session?.id ?? ''} onChange={e=>setSession(sessions.find(x => x.id === e.target.value) ?? null)}>
+              {sessions.map(x => <option key={x.id} value={x.id}>{x.venue?.name ?? 'Session'} · {dayjs(x.startTime).format('HH:mm')}–{dayjs(x.endTime).format('HH:mm')}</option>)}
+            </select>
+          )}
+          {session && <span className="text-sm text-gray-500">until {dayjs(session.endTime).format('HH:mm')}</span>}
+          {session && isOrganizer && <button onClick={endSession} className="text-sm text-red-600">End session</button>}
+        </div>
+        <div className="flex items-center gap-3">
+          <Link to="/tournaments" className="text-sm text-blue-600">Tournaments</Link>
+          {isOrganizer && <Link to="/organizer" className="text-sm text-blue-600">Control panel</Link>}
+          {user?.role === 'ADMIN' && <Link to="/admin/audit" className="text-sm text-blue-600">Audit log</Link>}
           <span className="text-sm text-gray-600">{user?.username} · {Math.round(user?.rating ?? 0)}</span>
-          <button onClick={logout} className="text-sm text-red-600">Logout</button>
+          <button onClick={()=>logout()} className="text-sm text-red-600">Logout</button>
+          <button onClick={()=>logout(true)} className="text-sm text-red-600" title="Sign out on every device">Logout everywhere</button>
         </div>
       </header>
-      <main className="p-4 grid md:grid-cols-3 gap-4">
+      {freshness === 'stale' && (
+        <div className="bg-yellow-50 border-b border-yellow-300 text-sm p-2 text-center">
+          {loadError} Showing the session as it was at {dayjs(readStored<DashboardCache | null>(DASHBOARD_CACHE_KEY, null)?.savedAt).format('HH:mm')}.
+          <button onClick={retryLoad} className="ml-2 text-blue-600">Retry</button>
+        </div>
+      )}
+      {freshness === 'loading' && (loadError ? <LoadError error={loadError} onRetry={retryLoad} /> : <div className="p-6 text-gray-500">Loading…</div>)}
+      {freshness !== 'loading' && !session && (
+        <main className="p-4 grid md:grid-cols-3 gap-4">
+          <OutboxPanel outbox={outbox} />
+          <section className="bg-white rounded shadow p-4 space-y-3">
+            <h2 className="font-semibold">No session running</h2>
+            {upcoming.length > 0 && (
+              <ul className="text-sm space-y-1">
+                {upcoming.map(x => <li key={x.id}>{x.venue?.name ?? 'Session'} · {dayjs(x.startTime).format('ddd D MMM HH:mm')}–{dayjs(x.endTime).format('HH:mm')}</li>)}
+              </ul>
+            )}
+            {isOrganizer && <StartSessionForm client={client} onStarted={loadSessions} />}
+          </section>
+          {user?.role === 'ADMIN' && <MemberImport client={client} />}
+        </main>
+      )}
+      {freshness !== 'loading' && session && <main className="p-4 grid md:grid-cols-3 gap-4">
+        <OutboxPanel outbox={outbox} />
+        {matches.filter(m => {
+          const slot = mySlot(m, user?.id)
+          return m.status === 'SCHEDULED' && slot && !m[`${slot}PresentAt`]
+        }).map(m => (
+          <div key={m.id} className="md:col-span-3 bg-yellow-50 border border-yellow-300 rounded p-3 flex items-center justify-between">
+            <span className="text-sm">You're up on <b>{courtName(m.court)}</b>. Confirm you're here or your place goes to the next player in the queue.</span>
+            <button onClick={()=>matchAction(m, 'present')} className="bg-green-600 text-white text-sm px-3 py-1 rounded">I'm here</button>
+          </div>
+        ))}
         <section className="bg-white rounded shadow p-4">
           <div className="flex items-center justify-between mb-3">
             <h2 className="font-semibold">Courts & Matches</h2>
-            <button onClick={generate} className="bg-blue-600 text-white text-sm px-3 py-1 rounded">Generate</button>
+            {isOrganizer && <Link to="/organizer" className="text-sm text-blue-600">Control panel</Link>}
           </div>
+          {session.courtList?.filter(c => c.isOpen && c.kingP1Id).map(c => (
+            <div key={c.number} className="text-sm mb-2">
+              👑 {c.name}: <b>{usernameOf(c.kingP1Id)} & {usernameOf(c.kingP2Id)}</b> · {c.kingWins}/{session.kingMaxWins} wins
+            </div>
+          ))}
           <div className="space-y-2">
             {matches.map(m => (
               <div key={m.id} className="border rounded p-2 flex items-center justify-between">
                 <div>
-                  <div className="text-sm text-gray-600">Court {m.court} · {m.status}</div>
-                  <div className="font-medium">{m.p1.username} & {m.p2.username} vs {m.p3.username} & {m.p4.username}</div>
+                  <div className="text-sm text-gray-600">{courtName(m.court)} · {m.status}{m.status === 'FINISHED' && m.winnerTeam && ` · Team ${m.winnerTeam} won${m.scores ? ` ${m.scores.replaceAll(',', ' ')}` : ''}`}</div>
+                  <MatchPlayers match={m} />
                 </div>
-                {m.status !== 'FINISHED' && (
-                  <div className="flex gap-2">
-                    <button onClick={()=>finishMatch(m.id, 1)} className="text-xs bg-green-600 text-white px-2 py-1 rounded">Team 1 Won</button>
-                    <button onClick={()=>finishMatch(m.id, 2)} className="text-xs bg-green-600 text-white px-2 py-1 rounded">Team 2 Won</button>
-                  </div>
-                )}
+                <MatchResult match={m} userId={user?.id} isOrganizer={isOrganizer} onAction={(path, body)=>matchAction(m, path, body)} />
               </div>
             ))}
           </div>
@@ -150,35 +908,1068 @@ function Dashboard() {
         <section className="bg-white rounded shadow p-4">
           <div className="flex items-center justify-between mb-3">
             <h2 className="font-semibold">Waiting Queue</h2>
-            <button onClick={joinQueue} className="bg-gray-800 text-white text-sm px-3 py-1 rounded">Join Queue</button>
+            {!myEntry && joinQueued && <span className="text-sm text-gray-500">Joining once you're back online</span>}
+            {!myEntry && !joinQueued && (!session.requireCheckIn || checkedIn) && <button onClick={()=>queueAction('join')} className="bg-gray-800 text-white text-sm px-3 py-1 rounded">Join Queue</button>}
+            {myEntry && (
+              <div className="flex gap-2">
+                {myEntry.status === 'PAUSED'
+                  ? <button onClick={()=>queueAction('resume')} className="bg-green-600 text-white text-sm px-3 py-1 rounded">I'm back</button>
+                  : <button onClick={()=>queueAction('pause')} className="bg-yellow-500 text-white text-sm px-3 py-1 rounded">Break</button>}
+                <button onClick={()=>queueAction('leave')} className="bg-gray-500 text-white text-sm px-3 py-1 rounded">Leave</button>
+              </div>
+            )}
           </div>
+          {session.requireCheckIn && !checkedIn && <CheckInForm onCheckIn={checkIn} />}
+          {checkedIn && <button onClick={checkOut} className="text-xs text-gray-500 mb-2">Leaving the hall? Check out</button>}
+          {myEntry && !myEntry.fixedPair && (
+            <label className="flex items-center gap-2 text-sm mb-2">
+              Play with
+              <select className="border rounded p-1 flex-1" value={myEntry.partnerId ?? ''} onChange={e=>queueAction('partner', { partnerId: e.target.value || null })}>
+                <option value="">Anyone</option>
+                {queue.filter(q => q.userId !== user?.id).map(q => <option key={q.userId} value={q.userId}>{q.user.username}</option>)}
+              </select>
+            </label>
+          )}
           <ol className="space-y-1 list-decimal pl-5">
             {queue.map(q => (
-              <li key={q.id} className="text-sm">{q.user.username} <span className="text-gray-500">({Math.round(q.user.rating)})</span></li>
+              <li key={q.id} className={`text-sm ${q.status === 'PAUSED' ? 'text-gray-400' : ''}`}>
+                {q.user.username} <span className="text-gray-500">({Math.round(q.user.rating)})</span>
+                {q.status === 'PAUSED' && <span className="ml-1 text-xs bg-yellow-100 text-yellow-800 rounded px-1">on break</span>}
+                {q.partnerId && <span className="ml-1 text-xs bg-blue-100 text-blue-800 rounded px-1">{q.fixedPair ? 'pair' : 'wants'}: {usernameOf(q.partnerId)}</span>}
+                {isOrganizer && q.fixedPair && <button onClick={()=>unpair(q.userId)} className="ml-1 text-xs text-red-600">unpair</button>}
+              </li>
             ))}
           </ol>
+          {isOrganizer && queue.length >= 2 && <PairForm queue={queue} onPair={userIds=>queueAction('pair', { userIds })} />}
         </section>
+        <WaitTimes estimates={estimates} />
         <section className="bg-white rounded shadow p-4">
           <div className="flex items-center justify-between mb-3">
             <h2 className="font-semibold">Leaderboard</h2>
-            <div className="flex gap-2">
-              <a className="text-sm text-blue-600" href={`${API_URL}/api/export/leaderboard.csv`}>
+            {isOrganizer && (
+              <button className="text-sm text-blue-600" onClick={()=>download('/api/export/leaderboard.csv', 'leaderboard.csv')}>
                 CSV
-              </a>
-              <a className="text-sm text-blue-600" href={`${API_URL}/api/export/matches.pdf`}>
-                PDF
-              </a>
-            </div>
+              </button>
+            )}
           </div>
           <ol className="space-y-1 list-decimal pl-5">
             {leaderboard.map(u => (
               <li key={u.id} className="text-sm flex justify-between">
-                <span>{u.username}</span>
+                <Link to={`/players/${u.id}`} className="text-blue-600">{u.username}</Link>
                 <span className="text-gray-500">{Math.round(u.rating)}</span>
               </li>
             ))}
           </ol>
         </section>
+        {isOrganizer && <CheckInPanel client={client} session={session} players={leaderboard} onSession={setSession} />}
+        {isOrganizer && <ExportPanel sessionId={session.id} players={leaderboard} onDownload={download} />}
+        {user?.role === 'ADMIN' && <MemberImport client={client} />}
+      </main>}
+    </div>
+  )
+}
+
+const ACTIVE = ['SCHEDULED', 'ONGOING']
+
+// What is being dragged on the control panel's court board.
+type Dragged = { from: 'queue'; userId: string } | { from: 'match'; matchId: string; userId: string }
+
+function ControlPanel() {
+  const { token, user, client } = useAuth()
+  const [sessions, setSessions] = useState<Session[]>([])
+  const [session, setSession] = useState<Session | null>(null)
+  const [queue, setQueue] = useState<QueueEntry[]>([])
+  const [matches, setMatches] = useState<Match[]>([])
+  // Lineups being put together on free courts, by court number.
+  const [drafts, setDrafts] = useState<Record<number, (string | null)[]>>({})
+  const dragged = useRef<Dragged | null>(null)
+
+  const isOrganizer = user?.role === 'ADMIN' || user?.role === 'ORGANIZER'
+
+  async function loadSessions() {
+    const { data } = await client.get<Session[]>('/api/sessions?status=active')
+    setSessions(data)
+    setSession(current => data.find(x => x.id === current?.id) ?? data[0] ?? null)
+  }
+  async function refresh(sid: string) {
+    const [q, m] = await Promise.all([client.get<QueueEntry[]>(`/api/session/${sid}/queue`), client.get<Match[]>(`/api/session/${sid}/matches`)])
+    setQueue(q.data); setMatches(m.data)
+  }
+  // Every board action reports 4xx answers (lost races, busy courts) and then resyncs.
+  async function act<T>(request: () => Promise<{ data: T }>) {
+    if (!session) return
+    try {
+      return (await request()).data
+    } catch (e) {
+      window.alert(errorMessage(e, 'Invalid request'))
+    } finally {
+      await refresh(session.id)
+    }
+  }
+  async function sessionAction(request: () => Promise<{ data: Session }>) {
+    const data = await act(request)
+    if (data) setSession(data)
+  }
+
+  useSessionEvents(session?.id, e => {
+    switch (e.type) {
+      case 'queue.changed': setQueue(e.queue); break
+      case 'match.scheduled': setMatches(ms => upsertMatches(ms, e.matches)); break
+      case 'match.updated':
+      case 'match.started':
+      case 'match.result':
+      case 'match.finished':
+      case 'match.cancelled':
+      case 'match.voided': setMatches(ms => upsertMatches(ms, [e.match])); break
+      case 'session.updated': setSession(e.session); break
+      case 'session.ended': setSession(null); loadSessions(); break
+    }
+  }, () => { if (session) refresh(session.id) })
+  useEffect(() => { if (token) loadSessions() }, [token])
+  useEffect(() => { if (session) { refresh(session.id); setDrafts({}) } }, [session?.id])
+
+  if (!token || !isOrganizer) return (
+    <div className="min-h-screen flex items-center justify-center">
+      <Link to={token ? '/' : '/login'} className="text-blue-600">{token ? 'Organizers only; back to the dashboard' : 'Login to continue'}</Link>
+    </div>
+  )
+
+  const active = matches.filter(m => ACTIVE.includes(m.status))
+  const courts = session?.courtList?.filter(c => c.isOpen) ?? []
+  const drafted = new Set(Object.values(drafts).flat())
+  const nameOf = (userId: string) => queue.find(q => q.userId === userId)?.user.username ?? 'someone'
+
+  function dragStart(item: Dragged) {
+    return (e: React.DragEvent) => { dragged.current = item; e.dataTransfer.effectAllowed = 'move' }
+  }
+  function allowDrop(e: React.DragEvent) { e.preventDefault() }
+
+  // Dropping on a player in a scheduled match replaces them from the queue or swaps them
+  // with the dragged player; dropping on a free court's slot drafts a new lineup.
+  function dropOnSlot(court: number, index: number, match: Match | undefined) {
+    const item = dragged.current
+    dragged.current = null
+    if (!item || !session) return
+    if (!match) {
+      if (item.from !== 'queue') return
+      setDrafts(d => {
+        const lineup = [...(d[court] ?? [null, null, null, null])].map(id => id === item.userId ? null : id)
+        lineup[index] = item.userId
+        return { ...d, [court]: lineup }
+      })
+      return
+    }
+    if (match.status !== 'SCHEDULED') return
+    const target = match[`${SLOTS[index]}Id` as const]
+    if (item.from === 'queue' || item.matchId === match.id) {
+      const playerIds = SLOTS.map(s => match[`${s}Id` as const])
+      const from = playerIds.indexOf(item.userId)
+      if (from >= 0) playerIds[from] = target
+      playerIds[index] = item.userId
+      act(() => client.put(`/api/match/${match.id}/players`, { playerIds, version: match.version }))
+      return
+    }
+    const other = matches.find(m => m.id === item.matchId)
+    act(() => client.post(`/api/session/${session.id}/matches/swap`, {
+      a: { matchId: item.matchId, userId: item.userId, version: other?.version },
+      b: { matchId: match.id, userId: target, version: match.version },
+    }))
+  }
+  function dropOnQueue(index: number) {
+    const item = dragged.current
+    dragged.current = null
+    if (!item || item.from !== 'queue' || !session) return
+    const order = queue.map(q => q.userId).filter(id => id !== item.userId)
+    order.splice(index, 0, item.userId)
+    setQueue(q => order.map(id => q.find(x => x.userId === id)!))
+    act(() => client.put(`/api/session/${session.id}/queue/order`, { userIds: order }))
+  }
+  function clearDraft(court: number) {
+    setDrafts(d => {
+      const next = { ...d }
+      delete next[court]
+      return next
+    })
+  }
+  async function schedule(court: number) {
+    if (!session) return
+    const created = await act(() => client.post(`/api/session/${session.id}/matches`, { court, playerIds: drafts[court] }))
+    if (created) clearDraft(court)
+  }
+
+  const slotClass = 'border border-dashed rounded px-2 py-1 text-sm min-h-8'
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="flex items-center justify-between p-4 bg-white shadow">
+        <div className="flex items-center gap-3">
+          <Link to="/" className="font-semibold">Badminton Scheduler</Link>
+          <span className="text-sm text-gray-500">Control panel</span>
+          {sessions.length > 1 && (
+            <select className="text-sm border rounded p-1" value={session?.id ?? ''} onChange={e=>setSession(sessions.find(x => x.id === e.target.value) ?? null)}>
+              {sessions.map(x => <option key={x.id} value={x.id}>{x.venue?.name ?? 'Session'} · {dayjs(x.startTime).format('HH:mm')}–{dayjs(x.endTime).format('HH:mm')}</option>)}
+            </select>
+          )}
+        </div>
+        {session && (
+          <div className="flex items-center gap-3">
+            <button onClick={()=>act(() => client.post(`/api/session/${session.id}/generate`))} className="bg-blue-600 text-white text-sm px-3 py-1 rounded">Generate</button>
+            <Link to={`/tv/${session.id}`} target="_blank" className="text-sm text-blue-600">TV mode</Link>
+          </div>
+        )}
+      </header>
+      {!session && <main className="p-4 text-gray-500">No session running.</main>}
+      {session && <main className="p-4 grid md:grid-cols-4 gap-4">
+        <section className="md:col-span-3 space-y-3">
+          <div className="flex flex-wrap gap-1 text-xs">
+            {courts.map(c => (
+              <span key={c.number} className="border rounded px-2 py-0.5 bg-white">
+                {c.name}
+                <select className="ml-1 bg-transparent" value={c.tier ?? ''} onChange={e=>sessionAction(() => client.put(`/api/session/${session.id}/courts/${c.number}`, { tier: e.target.value || null }))} title="Skill tier">
+                  <option value="">Mixed</option>
+                  {TIERS.map(t => <option key={t} value={t}>{t.toLowerCase()}</option>)}
+                </select>
+                <button onClick={()=>sessionAction(() => client.delete(`/api/session/${session.id}/courts/${c.number}`))} className="text-red-600" title="Close court">×</button>
+              </span>
+            ))}
+            <button onClick={()=>sessionAction(() => client.post(`/api/session/${session.id}/courts`, {}))} className="border rounded px-2 py-0.5 text-blue-600 bg-white">+ Court</button>
+          </div>
+          <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {courts.map(c => {
+              const match = active.find(m => m.court === c.number)
+              const draft = drafts[c.number] ?? [null, null, null, null]
+              const editable = !match || (match.status === 'SCHEDULED' && !match.tournamentId)
+              return (
+                <div key={c.number} className="bg-white rounded shadow p-3 space-y-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-semibold">{c.name}{c.tier && <span className="ml-1 text-xs text-gray-500">{c.tier.toLowerCase()}</span>}</span>
+                    <span className="text-gray-500">{match ? match.status : 'free'}</span>
+                  </div>
+                  {c.kingP1Id && (
+                    <div className="text-xs flex justify-between">
+                      <span>👑 {c.kingWins}/{session.kingMaxWins} wins</span>
+                      {!match && <button onClick={()=>sessionAction(() => client.delete(`/api/session/${session.id}/courts/${c.number}/king`))} className="text-red-600">release</button>}
+                    </div>
+                  )}
+                  {[0, 2].map(team => (
+                    <div key={team} className="grid grid-cols-2 gap-1">
+                      {[team, team + 1].map(i => {
+                        const userId = match ? match[`${SLOTS[i]}Id` as const] : draft[i]
+                        const name = match ? match[SLOTS[i]].username : userId && nameOf(userId)
+                        return (
+                          <div key={i} className={`${slotClass} ${editable ? '' : 'border-solid'}`}
+                            draggable={!!match && editable} onDragStart={match && userId ? dragStart({ from: 'match', matchId: match.id, userId }) : undefined}
+                            onDragOver={editable ? allowDrop : undefined} onDrop={()=>dropOnSlot(c.number, i, match)}>
+                            {name ?? <span className="text-gray-400">drop player</span>}
+                            {match?.status === 'SCHEDULED' && match[`${SLOTS[i]}PresentAt` as const] && <span className="text-green-600" title="Here"> ✓</span>}
+                          </div>
+                        )
+                      })}
+                    </div>
+                  ))}
+                  {match && <MatchResult match={match} userId={user?.id} isOrganizer onAction={(path, body)=>act(() => client.post(`/api/match/${match.id}/${path}`, { ...body, version: match.version }))} />}
+                  {!match && draft.some(Boolean) && (
+                    <div className="flex gap-2 text-xs">
+                      <button disabled={!draft.every(Boolean)} onClick={()=>schedule(c.number)} className="bg-blue-600 text-white px-2 py-1 rounded disabled:opacity-50">Schedule</button>
+                      <button onClick={()=>clearDraft(c.number)} className="text-gray-500">Clear</button>
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </section>
+        <section className="space-y-4">
+          <div className="bg-white rounded shadow p-4">
+            <h2 className="font-semibold mb-2">Queue</h2>
+            <p className="text-xs text-gray-500 mb-2">Drag players onto a court, or up and down to reorder.</p>
+            <ol className="space-y-1">
+              {queue.map((q, i) => (
+                <li key={q.userId} draggable onDragStart={dragStart({ from: 'queue', userId: q.userId })} onDragOver={allowDrop} onDrop={()=>dropOnQueue(i)}
+                  className={`text-sm border rounded px-2 py-1 cursor-move ${q.status === 'PAUSED' || drafted.has(q.userId) ? 'text-gray-400' : ''}`}>
+                  {i + 1}. {q.user.username} <span className="text-gray-500">({Math.round(q.user.rating)})</span>
+                  {q.status === 'PAUSED' && <span className="ml-1 text-xs bg-yellow-100 text-yellow-800 rounded px-1">on break</span>}
+                </li>
+              ))}
+            </ol>
+          </div>
+          <CourtSettingsPanel client={client} session={session} onSession={setSession} />
+        </section>
+      </main>}
+    </div>
+  )
+}
+
+// Read-only board for the hall display: courts, who is on them and who is next.
+function TvMode() {
+  const { sessionId } = useParams()
+  const [session, setSession] = useState<Session | null>(null)
+  const [queue, setQueue] = useState<QueueEntry[]>([])
+  const [matches, setMatches] = useState<Match[]>([])
+  const [estimates, setEstimates] = useState<Estimates | null>(null)
+
+  async function load() {
+    const [s, q, m] = await Promise.all([
+      axios.get<Session[]>(`${API_URL}/api/sessions?status=active`),
+      axios.get<QueueEntry[]>(`${API_URL}/api/session/${sessionId}/queue`),
+      axios.get<Match[]>(`${API_URL}/api/session/${sessionId}/matches`),
+    ])
+    setSession(s.data.find(x => x.id === sessionId) ?? null); setQueue(q.data); setMatches(m.data)
+  }
+  useSessionEvents(sessionId, e => {
+    switch (e.type) {
+      case 'queue.changed': setQueue(e.queue); break
+      case 'match.scheduled': setMatches(ms => upsertMatches(ms, e.matches)); break
+      case 'match.updated':
+      case 'match.started':
+      case 'match.finished':
+      case 'match.cancelled':
+      case 'match.voided': setMatches(ms => upsertMatches(ms, [e.match])); break
+      case 'session.updated': setSession(e.session); break
+      case 'session.ended': setSession(null); break
+    }
+  }, load)
+  useEffect(() => { load() }, [sessionId])
+  useEffect(() => {
+    const poll = () => axios.get(`${API_URL}/api/session/${sessionId}/estimates`).then(res => setEstimates(res.data)).catch(e => { if (!isOffline(e)) throw e })
+    poll()
+    const timer = setInterval(poll, 30_000)
+    return () => clearInterval(timer)
+  }, [sessionId, queue, matches])
+
+  const active = matches.filter(m => ACTIVE.includes(m.status))
+  const etas = new Map((estimates?.players ?? []).map(p => [p.userId, p.etaMinutes]))
+  const next = queue.filter(q => q.status === 'WAITING').slice(0, 12)
+  return (
+    <div className="min-h-screen bg-gray-900 text-white p-6 cursor-pointer" onDoubleClick={()=>document.documentElement.requestFullscreen?.()} title="Double-click for full screen">
+      {!session && <div className="text-3xl text-gray-400">No session running.</div>}
+      {session && <div className="grid grid-cols-4 gap-6">
+        <div className="col-span-3 grid grid-cols-2 xl:grid-cols-3 gap-4 content-start">
+          {session.courtList?.filter(c => c.isOpen).map(c => {
+            const match = active.find(m => m.court === c.number)
+            return (
+              <div key={c.number} className={`rounded-lg p-4 ${match?.status === 'ONGOING' ? 'bg-green-800' : match ? 'bg-blue-800' : 'bg-gray-800'}`}>
+                <div className="flex justify-between text-xl text-gray-300">
+                  <span>{c.name}</span>
+                  <span>{match ? (match.status === 'ONGOING' ? 'playing' : 'up next') : 'free'}{c.kingP1Id && ' 👑'}</span>
+                </div>
+                {match && (
+                  <div className="text-3xl font-semibold mt-2 leading-snug">
+                    <div>{match.p1.username} & {match.p2.username}</div>
+                    <div className="text-gray-400 text-xl">vs</div>
+                    <div>{match.p3.username} & {match.p4.username}</div>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+        <div className="bg-gray-800 rounded-lg p-4">
+          <h2 className="text-2xl font-semibold mb-3">Next up</h2>
+          <ol className="space-y-2 text-2xl">
+            {next.map((q, i) => (
+              <li key={q.userId} className="flex justify-between">
+                <span>{i + 1}. {q.user.username}</span>
+                {etas.get(q.userId) != null && <span className="text-gray-400">~{Math.round(etas.get(q.userId)!)}m</span>}
+              </li>
+            ))}
+          </ol>
+        </div>
+      </div>}
+    </div>
+  )
+}
+
+function CheckInForm({ onCheckIn }: { onCheckIn: (code: string) => void }) {
+  const [code, setCode] = useState('')
+  return (
+    <form className="flex gap-2 mb-2 text-sm" onSubmit={e => { e.preventDefault(); onCheckIn(code) }}>
+      <input className="border rounded p-1 flex-1 uppercase" placeholder="Check-in code" value={code} onChange={e=>setCode(e.target.value)} />
+      <button className="bg-gray-800 text-white px-3 py-1 rounded">Check in</button>
+    </form>
+  )
+}
+
+// Opened from the link (or a QR code of it) shown at the hall; checks the player straight in.
+function CheckInLink() {
+  const { sessionId } = useParams()
+  const [params] = useSearchParams()
+  const { token, client } = useAuth()
+  const nav = useNavigate()
+  const [error, setError] = useState('')
+  useEffect(() => {
+    if (!token) return
+    client.post(`/api/session/${sessionId}/checkin`, { code: params.get('code') ?? '' })
+      .then(() => nav('/'))
+      .catch(e => setError(errorMessage(e, 'Could not check in')))
+  }, [token, sessionId])
+  if (!token) return (
+    <div className="min-h-screen flex items-center justify-center">
+      <Link to="/login" className="text-blue-600">Sign in to check in</Link>
+    </div>
+  )
+  return <div className="p-6 text-gray-500">{error || 'Checking you in…'}</div>
+}
+
+type Attendance = { id: string; sessionId: string; userId: string; checkedInAt: string; checkedOutAt: string | null; checkedInById: string | null }
+
+function CheckInPanel({ client, session, players, onSession }: { client: ReturnType<typeof useAuth>['client']; session: Session; players: PublicUser[]; onSession: (s: Session) => void }) {
+  const [code, setCode] = useState<string | null>(null)
+  const [attendance, setAttendance] = useState<Attendance[]>([])
+
+  async function load() {
+    const [c, a] = await Promise.all([
+      client.get<{ code: string }>(`/api/session/${session.id}/checkin-code`),
+      client.get<Attendance[]>(`/api/session/${session.id}/attendance`),
+    ])
+    setCode(c.data.code); setAttendance(a.data)
+  }
+  useEffect(() => { load() }, [session.id])
+
+  const here = new Set(attendance.filter(a => !a.checkedOutAt).map(a => a.userId))
+  async function toggle(userId: string) {
+    if (here.has(userId)) await client.delete(`/api/session/${session.id}/attendance/${userId}`)
+    else await client.post(`/api/session/${session.id}/attendance/${userId}`)
+    await load()
+  }
+  async function newCode() {
+    const { data } = await client.post<{ code: string }>(`/api/session/${session.id}/checkin-code`)
+    setCode(data.code)
+  }
+  async function settings(body: object) {
+    const { data } = await client.put<Session>(`/api/session/${session.id}/settings`, body)
+    onSession(data)
+  }
+  const link = code ? `${window.location.origin}/checkin/${session.id}?code=${code}` : ''
+  return (
+    <section className="bg-white rounded shadow p-4 space-y-2 text-sm">
+      <h2 className="font-semibold">Check-in</h2>
+      <div className="flex items-center justify-between">
+        <span className="font-mono text-2xl tracking-widest">{code ?? '…'}</span>
+        <button onClick={newCode} className="text-blue-600">New code</button>
+      </div>
+      {link && <div className="text-xs text-gray-500 break-all">{link}</div>}
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={session.requireCheckIn} onChange={e=>settings({ requireCheckIn: e.target.checked })} /> Players must check in to queue
+      </label>
+      <label className="flex items-center gap-2">
+        Replace no-shows after
+        <input className="border rounded p-1 w-16" type="number" min={1} max={60} defaultValue={session.noShowMinutes ?? ''} placeholder="off"
+          onBlur={e=>settings({ noShowMinutes: e.target.value ? Number(e.target.value) : null })} /> min
+      </label>
+      <div className="text-gray-500">{here.size} checked in</div>
+      <ul className="max-h-64 overflow-y-auto space-y-1">
+        {players.map(p => (
+          <li key={p.id}>
+            <button onClick={()=>toggle(p.id)} className={`w-full text-left rounded px-2 py-1 ${here.has(p.id) ? 'bg-green-100 text-green-800' : 'hover:bg-gray-100'}`}>
+              {here.has(p.id) ? '✓ ' : ''}{p.username}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
+
+const TIERS = ['ADVANCED', 'INTERMEDIATE', 'BEGINNER']
+
+function CourtSettingsPanel({ client, session, onSession }: { client: ReturnType<typeof useAuth>['client']; session: Session; onSession: (s: Session) => void }) {
+  async function settings(body: object) {
+    try {
+      const { data } = await client.put<Session>(`/api/session/${session.id}/settings`, body)
+      onSession(data)
+    } catch (e) {
+      window.alert(errorMessage(e, 'Invalid setting'))
+    }
+  }
+  return (
+    <section className="bg-white rounded shadow p-4 space-y-2 text-sm">
+      <h2 className="font-semibold">Court rules</h2>
+      <label className="flex items-center gap-2">
+        Courts
+        <select className="border rounded p-1" value={session.courtPolicy} onChange={e=>settings({ courtPolicy: e.target.value })}>
+          <option value="ROTATE">Rotate everyone</option>
+          <option value="KING_OF_THE_COURT">King of the court</option>
+        </select>
+      </label>
+      {session.courtPolicy === 'KING_OF_THE_COURT' && (
+        <label className="flex items-center gap-2">
+          Winners step off after
+          <input className="border rounded p-1 w-16" type="number" min={1} max={20} defaultValue={session.kingMaxWins}
+            onBlur={e=>settings({ kingMaxWins: Number(e.target.value) })} /> wins
+        </label>
+      )}
+      <div className="text-gray-500">Tiers by rating</div>
+      <label className="flex items-center gap-2">
+        Advanced from
+        <input className="border rounded p-1 w-20" type="number" defaultValue={session.advancedMinRating}
+          onBlur={e=>settings({ advancedMinRating: Number(e.target.value) })} />
+      </label>
+      <label className="flex items-center gap-2">
+        Intermediate from
+        <input className="border rounded p-1 w-20" type="number" defaultValue={session.intermediateMinRating}
+          onBlur={e=>settings({ intermediateMinRating: Number(e.target.value) })} />
+      </label>
+      <label className="flex items-center gap-2">
+        When a tier is short
+        <select className="border rounded p-1" value={session.tierOverflow} onChange={e=>settings({ tierOverflow: e.target.value })}>
+          <option value="STRICT">leave the court empty</option>
+          <option value="ADJACENT">borrow from the next tier</option>
+          <option value="ANY">borrow from anyone</option>
+        </select>
+      </label>
+    </section>
+  )
+}
+
+function ExportPanel({ sessionId, players, onDownload }: { sessionId: string; players: PublicUser[]; onDownload: (path: string, filename: string) => void }) {
+  const [filter, setFilter] = useState({ scope: 'session', from: '', to: '', playerId: '' })
+  function query() {
+    const params = new URLSearchParams()
+    if (filter.scope === 'session') params.set('sessionId', sessionId)
+    if (filter.from) params.set('from', new Date(filter.from).toISOString())
+    // The end date is inclusive, so filter up to the end of that day.
+    if (filter.to) params.set('to', dayjs(filter.to).endOf('day').toISOString())
+    if (filter.playerId) params.set('playerId', filter.playerId)
+    const q = params.toString()
+    return q ? `?${q}` : ''
+  }
+  return (
+    <section className="bg-white rounded shadow p-4 space-y-2 text-sm">
+      <h2 className="font-semibold">Exports</h2>
+      <select className="w-full border rounded p-1" value={filter.scope} onChange={e=>setFilter(f=>({...f, scope: e.target.value}))}>
+        <option value="session">This session</option>
+        <option value="all">All sessions</option>
+      </select>
+      <div className="flex gap-2">
+        <input className="w-1/2 border rounded p-1" type="date" value={filter.from} onChange={e=>setFilter(f=>({...f, from: e.target.value}))} />
+        <input className="w-1/2 border rounded p-1" type="date" value={filter.to} onChange={e=>setFilter(f=>({...f, to: e.target.value}))} />
+      </div>
+      <select className="w-full border rounded p-1" value={filter.playerId} onChange={e=>setFilter(f=>({...f, playerId: e.target.value}))}>
+        <option value="">All players</option>
+        {players.map(p => <option key={p.id} value={p.id}>{p.username}</option>)}
+      </select>
+      <div className="flex flex-wrap gap-3">
+        <span className="text-gray-500">Matches:</span>
+        {['csv', 'json', 'ics', 'pdf'].map(ext => (
+          <button key={ext} className="text-blue-600" onClick={()=>onDownload(`/api/export/matches.${ext}${query()}`, `matches.${ext}`)}>{ext.toUpperCase()}</button>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-3">
+        <span className="text-gray-500">Leaderboard:</span>
+        {['csv', 'json'].map(ext => (
+          <button key={ext} className="text-blue-600" onClick={()=>onDownload(`/api/export/leaderboard.${ext}${query()}`, `leaderboard.${ext}`)}>{ext.toUpperCase()}</button>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-3">
+        <button className="text-blue-600" onClick={()=>onDownload(`/api/export/session/${sessionId}/report.pdf`, 'session-report.pdf')}>Session report (PDF)</button>
+        <button className="text-blue-600" onClick={()=>onDownload('/api/export/sessions.ics', 'sessions.ics')}>Session calendar (ICS)</button>
+      </div>
+    </section>
+  )
+}
+
+// One checked row of an import; the server never sends the password back.
+type ImportRow = { line: number; email: string; username: string; rating: number; role: 'PLAYER' | 'ORGANIZER'; errors: string[] }
+type ImportReport = { dryRun: boolean; total: number; valid: number; invalid: number; created: number; rows: ImportRow[] }
+
+function MemberImport({ client }: { client: ReturnType<typeof useAuth>['client'] }) {
+  const [csv, setCsv] = useState('')
+  const [report, setReport] = useState<ImportReport | null>(null)
+
+  async function run(dryRun: boolean) {
+    try {
+      const { data } = await client.post<ImportReport>('/api/admin/members/import', { csv, dryRun })
+      setReport(data)
+      if (!dryRun) setCsv('')
+    } catch (e) {
+      if (axios.isAxiosError<ImportReport>(e) && e.response?.data.rows) setReport(e.response.data)
+      else window.alert(errorMessage(e, 'Could not read the file'))
+    }
+  }
+  return (
+    <section className="bg-white rounded shadow p-4 space-y-2 text-sm">
+      <h2 className="font-semibold">Import members</h2>
+      <p className="text-gray-500">CSV with columns email, username and optionally rating, role and password.</p>
+      <input type="file" accept=".csv,text/csv" onChange={async e => {
+        const file = e.target.files?.[0]
+        if (file) { setCsv(await file.text()); setReport(null) }
+      }} />
+      <div className="flex gap-2">
+        <button disabled={!csv} className="flex-1 border rounded p-1 disabled:opacity-50" onClick={()=>run(true)}>Check</button>
+        <button disabled={!csv || !report || report.invalid > 0 || report.total === 0} className="flex-1 bg-blue-600 text-white rounded p-1 disabled:opacity-50" onClick={()=>run(false)}>Import</button>
+      </div>
+      {report && (
+        <div className="space-y-1">
+          <div>
+            {report.dryRun ? `${report.valid} of ${report.total} rows ready to import` : `${report.created} members created`}
+            {report.invalid > 0 && <span className="text-red-600"> · {report.invalid} with errors</span>}
+          </div>
+          <ul className="space-y-1">
+            {report.rows.filter(r => r.errors.length).map(r => (
+              <li key={r.line} className="text-red-600">Line {r.line} ({r.username || r.email || 'empty'}): {r.errors.join(', ')}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  )
+}
+
+type RatingPoint = { rating: number; change: number; createdAt: string }
+
+function RatingChart({ points }: { points: RatingPoint[] }) {
+  if (points.length < 2) return <p className="text-sm text-gray-500">Not enough rated matches for a chart yet.</p>
+  const width = 600, height = 200, pad = 24
+  const ratings = points.map(p => p.rating)
+  const min = Math.min(...ratings), max = Math.max(...ratings)
+  const span = max - min || 1
+  const x = (i: number) => pad + (i / (points.length - 1)) * (width - 2 * pad)
+  const y = (r: number) => height - pad - ((r - min) / span) * (height - 2 * pad)
+  const line = points.map((p, i) => `${x(i)},${y(p.rating)}`).join(' ')
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-48">
+      <text x={4} y={y(max) + 4} className="fill-gray-500 text-[10px]">{Math.round(max)}</text>
+      <text x={4} y={y(min) + 4} className="fill-gray-500 text-[10px]">{Math.round(min)}</text>
+      <polyline points={line} fill="none" stroke="#2563eb" strokeWidth={2} />
+      {points.map((p, i) => (
+        <circle key={i} cx={x(i)} cy={y(p.rating)} r={3} fill={p.change >= 0 ? '#16a34a' : '#dc2626'}>
+          <title>{`${dayjs(p.createdAt).format('YYYY-MM-DD HH:mm')} · ${Math.round(p.rating)} (${p.change >= 0 ? '+' : ''}${p.change.toFixed(1)})`}</title>
+        </circle>
+      ))}
+    </svg>
+  )
+}
+
+type HeadToHead = { userId: string; username?: string; games: number; wins: number; winRate: number }
+
+function HeadToHeadList({ title, rows }: { title: string; rows: HeadToHead[] }) {
+  return (
+    <div>
+      <h3 className="text-sm font-medium mb-1">{title}</h3>
+      {rows.length === 0 ? <p className="text-xs text-gray-500">Not enough games yet</p> : (
+        <ul className="space-y-1">
+          {rows.map(h => (
+            <li key={h.userId} className="text-sm flex justify-between">
+              <Link to={`/players/${h.userId}`} className="text-blue-600">{h.username}</Link>
+              <span className="text-gray-500">{h.wins}/{h.games} · {Math.round(h.winRate * 100)}%</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+type PlayerProfile = {
+  user: Omit<PublicUser, 'volatility'>
+  ratingHistory: RatingPoint[]
+  record: { played: number; wins: number; losses: number }
+  streaks: { current: { type: 'W' | 'L'; length: number } | null; longestWin: number }
+  sessions: { sessionId: string; games: number; wins: number; startTime: string }[]
+  partners: { best: HeadToHead[]; worst: HeadToHead[] }
+  opponents: { best: HeadToHead[]; worst: HeadToHead[] }
+}
+
+type AttendanceHistory = {
+  attendance: (Attendance & { session: Pick<Session, 'venue'> })[]
+  noShows: { id: string; matchId: string; createdAt: string; session: Pick<Session, 'venue'> }[]
+  noShowCount: number
+}
+
+function Profile() {
+  const { id } = useParams()
+  const { user: me, client } = useAuth()
+  const [profile, setProfile] = useState<PlayerProfile | null>(null)
+  const [attendance, setAttendance] = useState<AttendanceHistory | null>(null)
+  const [error, setError] = useState('')
+  const isOrganizer = me?.role === 'ADMIN' || me?.role === 'ORGANIZER'
+
+  function load() {
+    setError('')
+    client.get<PlayerProfile>(`/api/users/${id}/profile`).then(res => setProfile(res.data)).catch(e => setError(errorMessage(e, 'Could not load this player')))
+    if (isOrganizer) client.get<AttendanceHistory>(`/api/users/${id}/attendance`).then(res => setAttendance(res.data))
+  }
+  useEffect(load, [id])
+
+  if (!profile) return error ? <LoadError error={error} onRetry={load} /> : <div className="p-6 text-gray-500">Loading…</div>
+  const { user, record, streaks, sessions, partners, opponents } = profile
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="flex items-center justify-between p-4 bg-white shadow">
+        <h1 className="font-semibold">{user.username} · {Math.round(user.rating)}</h1>
+        <Link to="/" className="text-sm text-blue-600">Back</Link>
+      </header>
+      <main className="p-4 grid md:grid-cols-3 gap-4">
+        <section className="bg-white rounded shadow p-4 md:col-span-2">
+          <h2 className="font-semibold mb-3">Rating</h2>
+          <RatingChart points={profile.ratingHistory} />
+        </section>
+        <section className="bg-white rounded shadow p-4 space-y-2 text-sm">
+          <h2 className="font-semibold">Record</h2>
+          <div>{record.wins}W · {record.losses}L <span className="text-gray-500">({record.played} played)</span></div>
+          <div>Current streak: {streaks.current ? `${streaks.current.length}${streaks.current.type}` : '–'}</div>
+          <div>Longest win streak: {streaks.longestWin}</div>
+        </section>
+        <section className="bg-white rounded shadow p-4 space-y-3">
+          <h2 className="font-semibold">Partners</h2>
+          <HeadToHeadList title="Best" rows={partners.best} />
+          <HeadToHeadList title="Worst" rows={partners.worst} />
+        </section>
+        <section className="bg-white rounded shadow p-4 space-y-3">
+          <h2 className="font-semibold">Opponents</h2>
+          <HeadToHeadList title="Easiest" rows={opponents.best} />
+          <HeadToHeadList title="Toughest" rows={opponents.worst} />
+        </section>
+        <section className="bg-white rounded shadow p-4">
+          <h2 className="font-semibold mb-3">Sessions</h2>
+          <ul className="space-y-1">
+            {sessions.map(x => (
+              <li key={x.sessionId} className="text-sm flex justify-between">
+                <span>{dayjs(x.startTime).format('YYYY-MM-DD')}</span>
+                <span className="text-gray-500">{x.games} games · {x.wins} won</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+        {attendance && (
+          <section className="bg-white rounded shadow p-4 text-sm">
+            <h2 className="font-semibold mb-3">Attendance</h2>
+            <div className={attendance.noShowCount ? 'text-red-600 mb-2' : 'text-gray-500 mb-2'}>{attendance.noShowCount} no-shows</div>
+            <ul className="space-y-1">
+              {attendance.attendance.map(a => (
+                <li key={a.id} className="flex justify-between">
+                  <span>{a.session.venue?.name ?? 'Session'} · {dayjs(a.checkedInAt).format('YYYY-MM-DD')}</span>
+                  <span className="text-gray-500">{dayjs(a.checkedInAt).format('HH:mm')}–{a.checkedOutAt ? dayjs(a.checkedOutAt).format('HH:mm') : ''}</span>
+                </li>
+              ))}
+              {attendance.noShows.map(n => (
+                <li key={n.id} className="flex justify-between text-red-600">
+                  <span>No-show · {n.session.venue?.name ?? 'Session'}</span>
+                  <span>{dayjs(n.createdAt).format('YYYY-MM-DD HH:mm')}</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </main>
+    </div>
+  )
+}
+
+type TournamentSummary = {
+  id: string
+  name: string
+  format: 'ROUND_ROBIN' | 'KNOCKOUT'
+  status: 'REGISTRATION' | 'IN_PROGRESS' | 'FINISHED'
+  sessionId: string
+  countsForRating: boolean
+  _count: { teams: number }
+}
+type TournamentTeam = { id: string; name: string; player1Id: string; player2Id: string; seed: number | null; groupNo: number | null }
+type Fixture = { id: string; round: number; slot: number; groupNo: number | null; team1Id: string | null; team2Id: string | null; winnerId: string | null; match: Pick<Match, 'status' | 'court' | 'scores'> | null }
+type Standing = { teamId: string; played: number; won: number; lost: number; gamesFor: number; gamesAgainst: number; pointsFor: number; pointsAgainst: number }
+// The detail view replaces the group count with a standings table per round-robin group.
+type Tournament = Omit<TournamentSummary, '_count'> & { teams: TournamentTeam[]; fixtures: Fixture[]; groups: { groupNo: number; standings: Standing[] }[] }
+
+function Tournaments() {
+  const { user, client } = useAuth()
+  const [tournaments, setTournaments] = useState<TournamentSummary[]>([])
+  const [sessions, setSessions] = useState<Session[]>([])
+  const [form, setForm] = useState({ name: '', format: 'KNOCKOUT', sessionId: '', groups: '1', countsForRating: false })
+  const [status, setStatus] = useState('Loading…')
+  const navigate = useNavigate()
+  const isOrganizer = user?.role === 'ADMIN' || user?.role === 'ORGANIZER'
+
+  useEffect(() => {
+    client.get<TournamentSummary[]>('/api/tournaments')
+      .then(res => { setTournaments(res.data); setStatus('') })
+      .catch(e => setStatus(errorMessage(e, 'Could not load tournaments')))
+    Promise.all([client.get<Session[]>('/api/sessions?status=active'), client.get<Session[]>('/api/sessions?status=scheduled')])
+      .then(([a, s]) => setSessions([...a.data, ...s.data]))
+  }, [])
+
+  async function onCreate(e: React.FormEvent) {
+    e.preventDefault()
+    const { data } = await client.post('/api/tournaments', {
+      name: form.name,
+      format: form.format,
+      sessionId: form.sessionId || sessions[0]?.id,
+      groups: Number(form.groups),
+      countsForRating: form.countsForRating,
+    })
+    navigate(`/tournaments/${data.id}`)
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="flex items-center justify-between p-4 bg-white shadow">
+        <h1 className="font-semibold">Tournaments</h1>
+        <Link to="/" className="text-sm text-blue-600">Back</Link>
+      </header>
+      <main className="p-4 grid md:grid-cols-3 gap-4">
+        <section className="bg-white rounded shadow p-4 md:col-span-2">
+          <ul className="space-y-2">
+            {tournaments.map(t => (
+              <li key={t.id} className="flex justify-between text-sm">
+                <Link to={`/tournaments/${t.id}`} className="text-blue-600">{t.name}</Link>
+                <span className="text-gray-500">{t.format === 'KNOCKOUT' ? 'Knockout' : 'Round robin'} · {t._count.teams} teams · {t.status.toLowerCase().replace('_', ' ')}</span>
+              </li>
+            ))}
+            {status && <li className="text-sm text-gray-500">{status}</li>}
+            {!status && tournaments.length === 0 && <li className="text-sm text-gray-500">No tournaments yet</li>}
+          </ul>
+        </section>
+        {isOrganizer && (
+          <section className="bg-white rounded shadow p-4">
+            <h2 className="font-semibold mb-3">New tournament</h2>
+            {sessions.length === 0 ? <p className="text-sm text-gray-500">Start or schedule a session to play it in first.</p> : (
+              <form onSubmit={onCreate} className="space-y-2 text-sm">
+                <input className="w-full border rounded p-1" placeholder="Name" value={form.name} onChange={e=>setForm(f=>({...f, name: e.target.value}))} />
+                <select className="w-full border rounded p-1" value={form.sessionId} onChange={e=>setForm(f=>({...f, sessionId: e.target.value}))}>
+                  {sessions.map(x => <option key={x.id} value={x.id}>{x.venue?.name ?? 'Session'} · {dayjs(x.startTime).format('ddd D MMM HH:mm')}</option>)}
+                </select>
+                <div className="flex gap-2">
+                  <select className="w-1/2 border rounded p-1" value={form.format} onChange={e=>setForm(f=>({...f, format: e.target.value}))}>
+                    <option value="KNOCKOUT">Knockout</option>
+                    <option value="ROUND_ROBIN">Round robin</option>
+                  </select>
+                  {form.format === 'ROUND_ROBIN' && <input className="w-1/2 border rounded p-1" type="number" min={1} max={8} placeholder="Groups" value={form.groups} onChange={e=>setForm(f=>({...f, groups: e.target.value}))} />}
+                </div>
+                <label className="flex items-center gap-2"><input type="checkbox" checked={form.countsForRating} onChange={e=>setForm(f=>({...f, countsForRating: e.target.checked}))} /> Counts towards ratings</label>
+                <button className="w-full bg-blue-600 text-white rounded p-1">Create</button>
+              </form>
+            )}
+          </section>
+        )}
+      </main>
+    </div>
+  )
+}
+
+function FixtureCard({ fixture, teamName }: { fixture: Fixture; teamName: (id: string | null) => string }) {
+  const { match } = fixture
+  return (
+    <div className="border rounded p-2 text-sm bg-white">
+      {[fixture.team1Id, fixture.team2Id].map((id, i) => (
+        <div key={i} className={`flex justify-between ${fixture.winnerId && fixture.winnerId === id ? 'font-semibold' : ''}`}>
+          <span>{teamName(id)}</span>
+        </div>
+      ))}
+      <div className="text-xs text-gray-500 mt-1">
+        {match?.scores ?? (match?.status === 'ONGOING' ? `Playing on court ${match.court}` : match?.status === 'SCHEDULED' ? `Up next on court ${match.court}` : '')}
+      </div>
+    </div>
+  )
+}
+
+function TournamentPage() {
+  const { id } = useParams()
+  const { user, client } = useAuth()
+  const [tournament, setTournament] = useState<Tournament | null>(null)
+  const [players, setPlayers] = useState<PublicUser[]>([])
+  const [team, setTeam] = useState({ name: '', player1Id: '', player2Id: '' })
+  const [error, setError] = useState('')
+  const isOrganizer = user?.role === 'ADMIN' || user?.role === 'ORGANIZER'
+
+  async function load() {
+    const { data } = await client.get<Tournament>(`/api/tournaments/${id}`)
+    setTournament(data)
+  }
+  function firstLoad() {
+    setError('')
+    load().catch(e => setError(errorMessage(e, 'Could not load this tournament')))
+  }
+  async function action(run: () => Promise<unknown>) {
+    try {
+      await run()
+    } catch (e) {
+      window.alert(errorMessage(e))
+    }
+    await load()
+  }
+  useEffect(() => {
+    firstLoad()
+    client.get('/api/leaderboard').then(res => setPlayers(res.data))
+  }, [id])
+  // Any result on the tournament's session may move the bracket along.
+  useSessionEvents(tournament?.sessionId, e => {
+    if (e.type === 'tournament.updated' || e.type.startsWith('match.')) load()
+  }, load)
+
+  if (!tournament) return error ? <LoadError error={error} onRetry={firstLoad} /> : <div className="p-6 text-gray-500">Loading…</div>
+  const teamName = (teamId: string | null) => tournament.teams.find(t => t.id === teamId)?.name ?? (teamId ? '?' : '–')
+  const registering = tournament.status === 'REGISTRATION'
+  const rounds = [...new Set(tournament.fixtures.map(f => f.round))].sort((a, b) => a - b)
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="flex items-center justify-between p-4 bg-white shadow">
+        <div>
+          <h1 className="font-semibold">{tournament.name}</h1>
+          <p className="text-sm text-gray-500">
+            {tournament.format === 'KNOCKOUT' ? 'Knockout' : 'Round robin'} · {tournament.countsForRating ? 'rated' : 'unrated'} · {tournament.status.toLowerCase().replace('_', ' ')}
+          </p>
+        </div>
+        <Link to="/tournaments" className="text-sm text-blue-600">Back</Link>
+      </header>
+      <main className="p-4 grid md:grid-cols-3 gap-4">
+        <section className="bg-white rounded shadow p-4 space-y-3">
+          <h2 className="font-semibold">Teams</h2>
+          <ul className="space-y-1 text-sm">
+            {tournament.teams.map(t => (
+              <li key={t.id} className="flex justify-between">
+                <span>{t.seed ? `${t.seed}. ` : ''}{t.name}</span>
+                {registering && (isOrganizer || t.player1Id === user?.id || t.player2Id === user?.id) && (
+                  <button className="text-red-600" onClick={()=>action(() => client.delete(`/api/tournaments/${tournament.id}/teams/${t.id}`))}>Withdraw</button>
+                )}
+              </li>
+            ))}
+          </ul>
+          {registering && user && (
+            <form className="space-y-2 text-sm" onSubmit={e => {
+              e.preventDefault()
+              action(() => client.post(`/api/tournaments/${tournament.id}/teams`, {
+                name: team.name || undefined,
+                player1Id: isOrganizer ? team.player1Id : user.id,
+                player2Id: team.player2Id,
+              }))
+            }}>
+              <input className="w-full border rounded p-1" placeholder="Team name (optional)" value={team.name} onChange={e=>setTeam(t=>({...t, name: e.target.value}))} />
+              {isOrganizer && (
+                <select className="w-full border rounded p-1" value={team.player1Id} onChange={e=>setTeam(t=>({...t, player1Id: e.target.value}))}>
+                  <option value="">First player</option>
+                  {players.map(p => <option key={p.id} value={p.id}>{p.username}</option>)}
+                </select>
+              )}
+              <select className="w-full border rounded p-1" value={team.player2Id} onChange={e=>setTeam(t=>({...t, player2Id: e.target.value}))}>
+                <option value="">{isOrganizer ? 'Second player' : 'Partner'}</option>
+                {players.map(p => <option key={p.id} value={p.id}>{p.username}</option>)}
+              </select>
+              <button className="w-full bg-blue-600 text-white rounded p-1">Register team</button>
+            </form>
+          )}
+          {registering && isOrganizer && (
+            <button className="w-full bg-green-600 text-white rounded p-1 text-sm" onClick={()=>action(() => client.post(`/api/tournaments/${tournament.id}/start`))}>Close registration and draw</button>
+          )}
+        </section>
+        {tournament.format === 'KNOCKOUT' && !registering && (
+          <section className="bg-white rounded shadow p-4 md:col-span-2 overflow-x-auto">
+            <h2 className="font-semibold mb-3">Bracket</h2>
+            <div className="flex gap-4">
+              {rounds.map(r => (
+                <div key={r} className="flex flex-col justify-around gap-2 min-w-40">
+                  <h3 className="text-xs text-gray-500">{r === rounds.length ? 'Final' : r === rounds.length - 1 ? 'Semi-finals' : `Round ${r}`}</h3>
+                  {tournament.fixtures.filter(f => f.round === r).map(f => <FixtureCard key={f.id} fixture={f} teamName={teamName} />)}
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+        {tournament.groups.map(g => (
+          <section key={g.groupNo} className="bg-white rounded shadow p-4 md:col-span-2">
+            <h2 className="font-semibold mb-3">{tournament.groups.length > 1 ? `Group ${g.groupNo}` : 'Standings'}</h2>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500"><th>Team</th><th>P</th><th>W</th><th>L</th><th>Games</th><th>Points</th></tr>
+              </thead>
+              <tbody>
+                {g.standings.map(s => (
+                  <tr key={s.teamId}>
+                    <td>{teamName(s.teamId)}</td><td>{s.played}</td><td>{s.won}</td><td>{s.lost}</td>
+                    <td>{s.gamesFor}-{s.gamesAgainst}</td><td>{s.pointsFor - s.pointsAgainst}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="grid sm:grid-cols-2 gap-2 mt-3">
+              {tournament.fixtures.filter(f => f.groupNo === g.groupNo).map(f => <FixtureCard key={f.id} fixture={f} teamName={teamName} />)}
+            </div>
+          </section>
+        ))}
+      </main>
+    </div>
+  )
+}
+
+// request, before and after arrive parsed back from the JSON the server stored.
+type AuditLogEntry = {
+  id: string
+  action: string
+  status: number
+  entity: string | null
+  entityId: string | null
+  request: unknown
+  before: unknown
+  after: unknown
+  ip: string | null
+  createdAt: string
+  actor: { id: string; username: string } | null
+}
+
+function AuditEntry({ entry }: { entry: AuditLogEntry }) {
+  const [open, setOpen] = useState(false)
+  return (
+    <li className="border-b py-2 text-sm">
+      <button onClick={()=>setOpen(!open)} className="w-full flex justify-between text-left gap-2">
+        <span><span className={entry.status >= 400 ? 'text-red-600' : 'text-gray-800'}>{entry.action}</span>{entry.entity && <span className="text-gray-500"> · {entry.entity} {entry.entityId}</span>}</span>
+        <span className="text-gray-500 whitespace-nowrap">{entry.actor?.username ?? 'anonymous'} · {entry.status} · {dayjs(entry.createdAt).format('D MMM HH:mm:ss')}</span>
+      </button>
+      {open && (
+        <div className="grid md:grid-cols-3 gap-2 mt-2">
+          {(['request', 'before', 'after'] as const).map(k => (
+            <div key={k}>
+              <div className="text-xs text-gray-500">{k}</div>
+              <pre className="text-xs bg-gray-50 rounded p-2 overflow-auto max-h-64">{entry[k] ? JSON.stringify(entry[k], null, 2) : '—'}</pre>
+            </div>
+          ))}
+        </div>
+      )}
+    </li>
+  )
+}
+
+function AuditLog() {
+  const { user, client } = useAuth()
+  const [filters, setFilters] = useState({ action: '', entity: '', entityId: '', from: '', to: '', failed: '' })
+  const [entries, setEntries] = useState<AuditLogEntry[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+
+  async function load(cursor?: string) {
+    const params = Object.fromEntries(Object.entries({ ...filters, cursor }).filter(([, v]) => v))
+    const { data } = await client.get<{ entries: AuditLogEntry[]; nextCursor: string | null }>('/api/admin/audit', { params })
+    setEntries(cursor ? [...entries, ...data.entries] : data.entries)
+    setNextCursor(data.nextCursor)
+  }
+  useEffect(() => { if (user?.role === 'ADMIN') load() }, [user?.role])
+
+  if (user?.role !== 'ADMIN') return <div className="p-4 text-sm text-gray-600">Only admins can view the audit log.</div>
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="flex items-center justify-between p-4 bg-white shadow">
+        <h1 className="font-semibold">Audit log</h1>
+        <Link to="/" className="text-sm text-blue-600">Back</Link>
+      </header>
+      <main className="p-4 space-y-4">
+        <form onSubmit={e=>{ e.preventDefault(); load() }} className="bg-white rounded shadow p-4 flex flex-wrap gap-2 items-end text-sm">
+          <input className="border rounded px-2 py-1" placeholder="Action, e.g. undo-result" value={filters.action} onChange={e=>setFilters({ ...filters, action: e.target.value })} />
+          <input className="border rounded px-2 py-1" placeholder="Entity, e.g. Match" value={filters.entity} onChange={e=>setFilters({ ...filters, entity: e.target.value })} />
+          <input className="border rounded px-2 py-1" placeholder="Entity id" value={filters.entityId} onChange={e=>setFilters({ ...filters, entityId: e.target.value })} />
+          <label className="flex flex-col text-xs text-gray-600">From<input type="datetime-local" className="border rounded px-2 py-1 text-sm" value={filters.from} onChange={e=>setFilters({ ...filters, from: e.target.value })} /></label>
+          <label className="flex flex-col text-xs text-gray-600">To<input type="datetime-local" className="border rounded px-2 py-1 text-sm" value={filters.to} onChange={e=>setFilters({ ...filters, to: e.target.value })} /></label>
+          <select className="border rounded px-2 py-1" value={filters.failed} onChange={e=>setFilters({ ...filters, failed: e.target.value })}>
+            <option value="">All outcomes</option>
+            <option value="false">Succeeded</option>
+            <option value="true">Failed</option>
+          </select>
+          <button className="bg-blue-600 text-white px-3 py-1 rounded">Filter</button>
+        </form>
+        <section className="bg-white rounded shadow p-4">
+          <ul>
+            {entries.map(e => <AuditEntry key={e.id} entry={e} />)}
+            {entries.length === 0 && <li className="text-sm text-gray-500">No entries</li>}
+          </ul>
+          {nextCursor && <button onClick={()=>load(nextCursor)} className="mt-3 text-sm text-blue-600">Load more</button>}
+        </section>
       </main>
     </div>
   )
@@ -187,10 +1978,20 @@ function Dashboard() {
 export default function App() {
   return (
     <BrowserRouter>
+      <ConnectionStatus />
       <Routes>
         <Route path="/" element={<Dashboard/>} />
         <Route path="/login" element={<Login/>} />
         <Route path="/signup" element={<Signup/>} />
+        <Route path="/forgot-password" element={<ForgotPassword/>} />
+        <Route path="/reset-password" element={<ResetPassword/>} />
+        <Route path="/players/:id" element={<Profile/>} />
+        <Route path="/checkin/:sessionId" element={<CheckInLink/>} />
+        <Route path="/tournaments" element={<Tournaments/>} />
+        <Route path="/tournaments/:id" element={<TournamentPage/>} />
+        <Route path="/organizer" element={<ControlPanel/>} />
+        <Route path="/tv/:sessionId" element={<TvMode/>} />
+        <Route path="/admin/audit" element={<AuditLog/>} />
       </Routes>
     </BrowserRouter>
   )
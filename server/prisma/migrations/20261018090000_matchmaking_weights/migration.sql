@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "waitWeight" REAL NOT NULL DEFAULT 1;
+ALTER TABLE "Session" ADD COLUMN "balanceWeight" REAL NOT NULL DEFAULT 1;
+ALTER TABLE "Session" ADD COLUMN "partnerRepeatWeight" REAL NOT NULL DEFAULT 2;
+ALTER TABLE "Session" ADD COLUMN "opponentRepeatWeight" REAL NOT NULL DEFAULT 0.5;
+ALTER TABLE "Session" ADD COLUMN "matchmakingSeed" INTEGER;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "role" TEXT NOT NULL DEFAULT 'PLAYER';
+
+-- Existing clubs already have members, so the first-signup rule never applies to them.
+-- Promote the oldest account so someone can start sessions and hand out roles.
+UPDATE "User" SET "role" = 'ADMIN' WHERE "id" = (SELECT "id" FROM "User" ORDER BY "createdAt" ASC, "id" ASC LIMIT 1);
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Match" ADD COLUMN "scores" TEXT;
+ALTER TABLE "Match" ADD COLUMN "resultStatus" TEXT;
+ALTER TABLE "Match" ADD COLUMN "reportedById" TEXT;
+ALTER TABLE "Match" ADD COLUMN "reportedTeam" INTEGER;
+ALTER TABLE "Match" ADD COLUMN "confirmedById" TEXT;
+ALTER TABLE "Match" ADD COLUMN "disputedById" TEXT;
+ALTER TABLE "Match" ADD COLUMN "disputeReason" TEXT;
+
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "marginOfVictory" BOOLEAN NOT NULL DEFAULT false;
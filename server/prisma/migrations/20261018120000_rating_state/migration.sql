@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "ratingDeviation" REAL NOT NULL DEFAULT 350;
+ALTER TABLE "User" ADD COLUMN "volatility" REAL NOT NULL DEFAULT 0.06;
+ALTER TABLE "User" ADD COLUMN "ratedMatches" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,69 @@
+-- CreateTable
+CREATE TABLE "Venue" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "Court" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "venueId" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    CONSTRAINT "Court_venueId_fkey" FOREIGN KEY ("venueId") REFERENCES "Venue" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "SessionCourt" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "isOpen" BOOLEAN NOT NULL DEFAULT true,
+    CONSTRAINT "SessionCourt_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Session" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startTime" DATETIME NOT NULL,
+    "endTime" DATETIME NOT NULL,
+    "courts" INTEGER NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "endedAt" DATETIME,
+    "venueId" TEXT,
+    "waitWeight" REAL NOT NULL DEFAULT 1,
+    "balanceWeight" REAL NOT NULL DEFAULT 1,
+    "partnerRepeatWeight" REAL NOT NULL DEFAULT 2,
+    "opponentRepeatWeight" REAL NOT NULL DEFAULT 0.5,
+    "matchmakingSeed" INTEGER,
+    "marginOfVictory" BOOLEAN NOT NULL DEFAULT false,
+    CONSTRAINT "Session_venueId_fkey" FOREIGN KEY ("venueId") REFERENCES "Venue" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Session" ("balanceWeight", "courts", "createdAt", "endTime", "id", "isActive", "marginOfVictory", "matchmakingSeed", "opponentRepeatWeight", "partnerRepeatWeight", "startTime", "waitWeight") SELECT "balanceWeight", "courts", "createdAt", "endTime", "id", "isActive", "marginOfVictory", "matchmakingSeed", "opponentRepeatWeight", "partnerRepeatWeight", "startTime", "waitWeight" FROM "Session";
+DROP TABLE "Session";
+ALTER TABLE "new_Session" RENAME TO "Session";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Venue_name_key" ON "Venue"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Court_venueId_number_key" ON "Court"("venueId", "number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SessionCourt_sessionId_number_key" ON "SessionCourt"("sessionId", "number");
+
+-- Backfill numbered courts for existing sessions
+WITH RECURSIVE "n"("sessionId", "number", "courts") AS (
+    SELECT "id", 1, "courts" FROM "Session" WHERE "courts" >= 1
+    UNION ALL
+    SELECT "sessionId", "number" + 1, "courts" FROM "n" WHERE "number" < "courts"
+)
+INSERT INTO "SessionCourt" ("id", "sessionId", "number", "name")
+SELECT lower(hex(randomblob(12))), "sessionId", "number", 'Court ' || "number" FROM "n";
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "partnerRequestWeight" REAL NOT NULL DEFAULT 3;
+ALTER TABLE "Session" ADD COLUMN "autoRequeue" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "WaitingQueueEntry" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'WAITING';
+ALTER TABLE "WaitingQueueEntry" ADD COLUMN "partnerId" TEXT;
+ALTER TABLE "WaitingQueueEntry" ADD COLUMN "fixedPair" BOOLEAN NOT NULL DEFAULT false;
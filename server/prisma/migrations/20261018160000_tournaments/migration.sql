@@ -0,0 +1,50 @@
+-- AlterTable
+ALTER TABLE "Match" ADD COLUMN "tournamentId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Tournament" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'REGISTRATION',
+    "sessionId" TEXT NOT NULL,
+    "groups" INTEGER NOT NULL DEFAULT 1,
+    "countsForRating" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Tournament_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "TournamentTeam" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "tournamentId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "player1Id" TEXT NOT NULL,
+    "player2Id" TEXT NOT NULL,
+    "seed" INTEGER,
+    "groupNo" INTEGER,
+    CONSTRAINT "TournamentTeam_tournamentId_fkey" FOREIGN KEY ("tournamentId") REFERENCES "Tournament" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "TournamentTeam_player1Id_fkey" FOREIGN KEY ("player1Id") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "TournamentTeam_player2Id_fkey" FOREIGN KEY ("player2Id") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "TournamentFixture" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "tournamentId" TEXT NOT NULL,
+    "round" INTEGER NOT NULL,
+    "slot" INTEGER NOT NULL,
+    "groupNo" INTEGER,
+    "team1Id" TEXT,
+    "team2Id" TEXT,
+    "winnerId" TEXT,
+    "matchId" TEXT,
+    CONSTRAINT "TournamentFixture_tournamentId_fkey" FOREIGN KEY ("tournamentId") REFERENCES "Tournament" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "TournamentFixture_team1Id_fkey" FOREIGN KEY ("team1Id") REFERENCES "TournamentTeam" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "TournamentFixture_team2Id_fkey" FOREIGN KEY ("team2Id") REFERENCES "TournamentTeam" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "TournamentFixture_winnerId_fkey" FOREIGN KEY ("winnerId") REFERENCES "TournamentTeam" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "TournamentFixture_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "Match" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TournamentFixture_matchId_key" ON "TournamentFixture"("matchId");
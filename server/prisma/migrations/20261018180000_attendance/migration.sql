@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "checkInCode" TEXT;
+ALTER TABLE "Session" ADD COLUMN "requireCheckIn" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Session" ADD COLUMN "noShowMinutes" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Match" ADD COLUMN "p1PresentAt" DATETIME;
+ALTER TABLE "Match" ADD COLUMN "p2PresentAt" DATETIME;
+ALTER TABLE "Match" ADD COLUMN "p3PresentAt" DATETIME;
+ALTER TABLE "Match" ADD COLUMN "p4PresentAt" DATETIME;
+ALTER TABLE "Match" ADD COLUMN "lineupChangedAt" DATETIME;
+
+-- CreateTable
+CREATE TABLE "Attendance" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "checkedInAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "checkedOutAt" DATETIME,
+    "checkedInById" TEXT,
+    CONSTRAINT "Attendance_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Attendance_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "NoShow" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "matchId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "NoShow_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "NoShow_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Attendance_sessionId_userId_key" ON "Attendance"("sessionId", "userId");
+
+-- CreateIndex
+CREATE INDEX "NoShow_userId_idx" ON "NoShow"("userId");
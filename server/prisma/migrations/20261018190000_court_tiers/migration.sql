@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "advancedMinRating" REAL NOT NULL DEFAULT 1400;
+ALTER TABLE "Session" ADD COLUMN "intermediateMinRating" REAL NOT NULL DEFAULT 1150;
+ALTER TABLE "Session" ADD COLUMN "tierOverflow" TEXT NOT NULL DEFAULT 'ADJACENT';
+ALTER TABLE "Session" ADD COLUMN "courtPolicy" TEXT NOT NULL DEFAULT 'ROTATE';
+ALTER TABLE "Session" ADD COLUMN "kingMaxWins" INTEGER NOT NULL DEFAULT 3;
+
+-- AlterTable
+ALTER TABLE "SessionCourt" ADD COLUMN "tier" TEXT;
+ALTER TABLE "SessionCourt" ADD COLUMN "kingP1Id" TEXT;
+ALTER TABLE "SessionCourt" ADD COLUMN "kingP2Id" TEXT;
+ALTER TABLE "SessionCourt" ADD COLUMN "kingWins" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,1847 @@
+import 'dotenv/config';
+import express from 'express';
+import cors from 'cors';
+import bcrypt from 'bcryptjs';
+import { PrismaClient, Prisma, CourtPolicy, MatchStatus, QueueStatus, ResultStatus, Role, SkillTier, TierOverflow, TournamentFormat, TournamentStatus } from '@prisma/client';
+import { z } from 'zod';
+import dayjs from 'dayjs';
+import { format as csvFormat } from '@fast-csv/format';
+import PDFDocument from 'pdfkit';
+import { randomBytes, randomUUID } from 'node:crypto';
+import { Candidate, MatchmakingWeights, PlannedMatch, planChallengers } from './matchmaking.js';
+import { planTieredCourts } from './tiers.js';
+import { sessionEvents } from './events.js';
+import { GameScore, formatScores, marginMultiplier, matchWinner, parseScores } from './scoring.js';
+import { HeadToHead, playerStats } from './stats.js';
+import { CourtMatch, DEFAULT_MATCH_MINUTES, durationMinutes, estimateWaits, median } from './estimates.js';
+import { ACTIVE_STATUSES, ConflictError, checkVersion, updateMatch } from './matchState.js';
+import { DEFAULT_RATING, DEFAULT_RD, DEFAULT_VOLATILITY, PlayerRating, RatingConfig, Teams, rateMatch, ratingConfigFromEnv } from './rating.js';
+import { drawTable, exportFilterSchema, matchEvent, matchFilter, matchRow, toICalendar, writeSessionReport } from './exports.js';
+import { readCsv, validateMembers } from './memberImport.js';
+import { REFRESH_TOKEN_DAYS, RESET_TOKEN_MINUTES, hashToken, newOpaqueToken, signAccessToken, verifyAccessToken } from './auth.js';
+import { RateLimiter } from './rateLimit.js';
+import { mailTransportFromEnv } from './mail.js';
+import { accountUser, accountUserSelect, playerInclude, publicUserSelect } from './dto.js';
+import { SLOTS, absentSlots, newCheckInCode, noShowDue, slotOf } from './attendance.js';
+import { knockoutFixtures, nextKnockoutSlot, roundRobinFixtures, snakeGroups, standings } from './tournament.js';
+import { AuditChange, auditChange, auditQuerySchema, flatRow, redact, toJson } from './audit.js';
+
+export const prisma = new PrismaClient({ omit: { session: { checkInCode: true } } });
+export const app = express();
+// Behind a reverse proxy set TRUST_PROXY (e.g. 1) so rate limits see the client's address.
+if (process.env.TRUST_PROXY) app.set('trust proxy', Number(process.env.TRUST_PROXY) || process.env.TRUST_PROXY);
+app.use(cors());
+app.use(express.json());
+
+// Every request that can change something is logged once its response is sent, failures
+// included. Routes attach the row they changed with auditChange; sign-up and login name
+// their actor through res.locals.actorId because they run before anyone is signed in.
+app.use((req: any, res, next) => {
+  if (['GET', 'HEAD', 'OPTIONS'].includes(req.method)) return next();
+  res.on('finish', () => {
+    const change: AuditChange | undefined = res.locals.audit;
+    prisma.auditLog.create({ data: {
+      actorId: req.userId ?? res.locals.actorId ?? null,
+      action: `${req.method} ${req.route?.path ?? req.path}`,
+      status: res.statusCode,
+      entity: change?.entity ?? null,
+      entityId: change?.entityId ?? null,
+      request: toJson(redact({ params: req.params, body: req.body })),
+      before: toJson(redact(change?.before)),
+      after: toJson(redact(change?.after)),
+      ip: req.ip ?? null,
+    } }).catch(e => console.error('Audit log write failed', e));
+  });
+  next();
+});
+
+const mail = mailTransportFromEnv();
+const APP_URL = process.env.APP_URL || 'http://localhost:5173';
+
+function authMiddleware(req: any, res: any, next: any) {
+  const header = req.headers.authorization;
+  if (!header) return res.status(401).json({ error: 'Missing token' });
+  const userId = verifyAccessToken(header.split(' ')[1] ?? '');
+  if (!userId) return res.status(401).json({ error: 'Invalid token' });
+  req.userId = userId;
+  next();
+}
+
+// Starts a new refresh token family, or continues `family` when rotating.
+async function issueTokens(userId: string, family: string = randomUUID()) {
+  const refresh = newOpaqueToken();
+  await prisma.refreshToken.create({
+    data: { userId, family, tokenHash: refresh.hash, expiresAt: dayjs().add(REFRESH_TOKEN_DAYS, 'day').toDate() },
+  });
+  return { token: signAccessToken(userId), refreshToken: refresh.token };
+}
+
+async function revokeRefreshTokens(where: Prisma.RefreshTokenWhereInput) {
+  await prisma.refreshToken.updateMany({ where: { ...where, revokedAt: null }, data: { revokedAt: new Date() } });
+}
+
+// Must run after authMiddleware. The role is read from the database on every request
+// so promotions and demotions take effect without waiting for the token to expire.
+function requireRole(...roles: Role[]) {
+  return async (req: any, res: any, next: any) => {
+    const user = await prisma.user.findUnique({ where: { id: req.userId }, select: { role: true } });
+    if (!user) return res.status(401).json({ error: 'Invalid token' });
+    req.userRole = user.role;
+    if (!roles.includes(user.role)) return res.status(403).json({ error: 'Insufficient role' });
+    next();
+  };
+}
+
+const requireOrganizer = requireRole(Role.ADMIN, Role.ORGANIZER);
+const requireAdmin = requireRole(Role.ADMIN);
+
+function isOrganizer(role: Role) { return role === Role.ADMIN || role === Role.ORGANIZER; }
+function playedIn(match: { p1Id: string; p2Id: string; p3Id: string; p4Id: string }, userId: string) {
+  return [match.p1Id, match.p2Id, match.p3Id, match.p4Id].includes(userId);
+}
+
+const ratingConfig = ratingConfigFromEnv();
+
+function sessionWeights(session: { waitWeight: number; balanceWeight: number; partnerRepeatWeight: number; opponentRepeatWeight: number; partnerRequestWeight: number }): MatchmakingWeights {
+  return { wait: session.waitWeight, balance: session.balanceWeight, partnerRepeat: session.partnerRepeatWeight, opponentRepeat: session.opponentRepeatWeight, partnerRequest: session.partnerRequestWeight };
+}
+
+async function publishQueue(sessionId: string) {
+  const queue = await prisma.waitingQueueEntry.findMany({ where: { sessionId }, include: { user: { select: publicUserSelect } }, orderBy: { position: 'asc' } });
+  sessionEvents.publish(sessionId, { type: 'queue.changed', queue });
+}
+
+// Puts players back in the queue in the given order, ahead of everyone or behind them.
+async function requeuePlayers(tx: Prisma.TransactionClient, sessionId: string, userIds: string[], at: 'front' | 'back') {
+  const bounds = await tx.waitingQueueEntry.aggregate({ where: { sessionId }, _min: { position: true }, _max: { position: true } });
+  const first = at === 'front' ? (bounds._min.position ?? 1) - userIds.length : (bounds._max.position ?? 0) + 1;
+  for (const [i, userId] of userIds.entries()) {
+    await tx.waitingQueueEntry.upsert({
+      where: { sessionId_userId: { sessionId, userId } },
+      update: { position: first + i, status: QueueStatus.WAITING },
+      create: { sessionId, userId, position: first + i },
+    });
+  }
+}
+
+// Runs in one transaction and claims players by deleting their queue entries; if another
+// request got to any of them first the whole round is rolled back with a ConflictError.
+async function generateUpcomingMatches(sessionId: string) {
+  const created = await prisma.$transaction(async tx => {
+    const session = await tx.session.findUnique({ where: { id: sessionId } });
+    if (!session) throw new Error('Session not found');
+
+    if (!session.isActive) return [];
+
+    const active = await tx.match.findMany({ where: { sessionId, status: { in: ACTIVE_STATUSES } }, select: { court: true } });
+    const usedCourts = new Set(active.map(m => m.court));
+    const open = await tx.sessionCourt.findMany({ where: { sessionId, isOpen: true }, orderBy: { number: 'asc' } });
+    const freeCourts = open.filter(c => !usedCourts.has(c.number));
+    if (freeCourts.length === 0) return [];
+
+    const waiting = await tx.waitingQueueEntry.findMany({
+      where: { sessionId, status: QueueStatus.WAITING },
+      include: { user: { select: publicUserSelect } },
+      orderBy: [{ position: 'asc' }, { joinedAt: 'asc' }],
+    });
+    // Half of a fixed pair sits out while the other half is paused or away.
+    const waitingIds = new Set(waiting.map(q => q.userId));
+    const queue = waiting.filter(q => !q.fixedPair || !q.partnerId || waitingIds.has(q.partnerId));
+    const history = await tx.match.findMany({ where: { sessionId, status: { notIn: [MatchStatus.CANCELLED] } }, select: { p1Id: true, p2Id: true, p3Id: true, p4Id: true } });
+
+    // Offset the seed by the number of matches so far so each round differs but stays reproducible.
+    const seed = session.matchmakingSeed == null ? null : session.matchmakingSeed + history.length;
+    const options = { weights: sessionWeights(session), seed };
+    let candidates: Candidate[] = queue.map(q => ({ id: q.user.id, rating: q.user.rating, partnerId: q.partnerId, fixed: q.fixedPair }));
+    const planned: { court: number; plan: PlannedMatch }[] = [];
+
+    // Under king of the court a held court only needs two challengers from the queue.
+    const held = session.courtPolicy === CourtPolicy.KING_OF_THE_COURT ? freeCourts.filter(c => c.kingP1Id && c.kingP2Id) : [];
+    const kings = await tx.user.findMany({ where: { id: { in: held.flatMap(c => [c.kingP1Id!, c.kingP2Id!]) } }, select: { id: true, rating: true } });
+    for (const court of held) {
+      const pair = [court.kingP1Id, court.kingP2Id].map(id => kings.find(k => k.id === id));
+      if (!pair[0] || !pair[1]) continue;
+      const plan = planChallengers([pair[0], pair[1]], candidates, history, options);
+      if (!plan) continue;
+      planned.push({ court: court.number, plan });
+      candidates = candidates.filter(c => !plan.team2.includes(c));
+    }
+    const rest = freeCourts.filter(c => !held.includes(c));
+    planned.push(...planTieredCourts(rest, candidates, history, { ...options, bands: session, overflow: session.tierOverflow }));
+
+    const queued = new Set(queue.map(q => q.userId));
+    const matches = [];
+    for (const { court, plan } of planned.sort((a, b) => a.court - b.court)) {
+      const group = [...plan.team1, ...plan.team2];
+      const fromQueue = group.filter(g => queued.has(g.id)).map(g => g.id);
+      const claimed = await tx.waitingQueueEntry.deleteMany({ where: { sessionId, status: QueueStatus.WAITING, userId: { in: fromQueue } } });
+      if (claimed.count !== fromQueue.length) throw new ConflictError('Queue changed while matches were being generated; try again');
+      const match = await tx.match.create({ data: { sessionId, court, status: MatchStatus.SCHEDULED, p1Id: group[0].id, p2Id: group[1].id, p3Id: group[2].id, p4Id: group[3].id }, include: playerInclude });
+      matches.push(match);
+    }
+    return matches;
+  });
+  if (created.length) {
+    sessionEvents.publish(sessionId, { type: 'match.scheduled', matches: created });
+    await publishQueue(sessionId);
+  }
+  return created;
+}
+
+// Free courts go to tournament fixtures whose teams are both known before the open queue.
+// Players put on court for a fixture leave the queue so they cannot be drawn twice.
+async function assignTournamentCourts(sessionId: string) {
+  const created = await prisma.$transaction(async tx => {
+    const session = await tx.session.findUnique({ where: { id: sessionId } });
+    if (!session?.isActive) return [];
+
+    const active = await tx.match.findMany({ where: { sessionId, status: { in: ACTIVE_STATUSES } } });
+    const usedCourts = new Set(active.map(m => m.court));
+    const open = await tx.sessionCourt.findMany({ where: { sessionId, isOpen: true }, orderBy: { number: 'asc' } });
+    const freeCourts = open.map(c => c.number).filter(n => !usedCourts.has(n));
+    if (freeCourts.length === 0) return [];
+
+    // A cancelled or voided fixture match is played again.
+    const fixtures = await tx.tournamentFixture.findMany({
+      where: {
+        tournament: { sessionId, status: TournamentStatus.IN_PROGRESS },
+        winnerId: null,
+        team1Id: { not: null },
+        team2Id: { not: null },
+        OR: [{ matchId: null }, { match: { status: { in: [MatchStatus.CANCELLED, MatchStatus.VOID] } } }],
+      },
+      include: { team1: true, team2: true },
+      orderBy: [{ round: 'asc' }, { groupNo: 'asc' }, { slot: 'asc' }],
+    });
+    const busy = new Set(active.flatMap(m => [m.p1Id, m.p2Id, m.p3Id, m.p4Id]));
+    const courts = [...freeCourts];
+    const matches = [];
+    for (const fixture of fixtures) {
+      if (courts.length === 0) break;
+      const players = [fixture.team1!.player1Id, fixture.team1!.player2Id, fixture.team2!.player1Id, fixture.team2!.player2Id];
+      if (players.some(p => busy.has(p))) continue;
+      players.forEach(p => busy.add(p));
+      const court = courts.shift()!;
+      const match = await tx.match.create({
+        data: { sessionId, court, status: MatchStatus.SCHEDULED, tournamentId: fixture.tournamentId, p1Id: players[0], p2Id: players[1], p3Id: players[2], p4Id: players[3] },
+        include: playerInclude,
+      });
+      await tx.tournamentFixture.update({ where: { id: fixture.id }, data: { matchId: match.id } });
+      await tx.waitingQueueEntry.deleteMany({ where: { sessionId, userId: { in: players } } });
+      matches.push(match);
+    }
+    return matches;
+  });
+  if (created.length) {
+    sessionEvents.publish(sessionId, { type: 'match.scheduled', matches: created });
+    await publishQueue(sessionId);
+  }
+  return created;
+}
+
+// Tops up free courts after a match ends; losing that race to another request is fine.
+async function refillCourts(sessionId: string) {
+  try {
+    await assignTournamentCourts(sessionId);
+    await generateUpcomingMatches(sessionId);
+  } catch (e) {
+    if (!(e instanceof ConflictError)) throw e;
+  }
+}
+
+type NewSession = { startTime: Date; endTime: Date; courts?: number; venueId?: string; marginOfVictory?: boolean; autoRequeue?: boolean };
+
+// Creates the session and its numbered courts, taking names from the venue when there is one.
+// Sessions that start in the future stay inactive until sweepSessions opens them.
+async function createSession({ startTime, endTime, courts, venueId, marginOfVictory, autoRequeue }: NewSession) {
+  const venueCourts = venueId ? await prisma.court.findMany({ where: { venueId }, orderBy: { number: 'asc' } }) : [];
+  const count = courts ?? (venueCourts.length || 5);
+  const courtList = Array.from({ length: count }).map((_, i) => ({
+    number: venueCourts[i]?.number ?? i + 1,
+    name: venueCourts[i]?.name ?? `Court ${i + 1}`,
+  }));
+  return prisma.session.create({
+    data: { startTime, endTime, courts: count, venueId, marginOfVictory, autoRequeue, checkInCode: newCheckInCode(), isActive: startTime <= new Date(), courtList: { create: courtList } },
+    include: { courtList: { orderBy: { number: 'asc' } }, venue: true },
+  });
+}
+
+// Ends a session: unplayed matches are cancelled and the queue is cleared. Matches already
+// on court are left to finish.
+async function closeSession(sessionId: string) {
+  const session = await prisma.$transaction(async tx => {
+    await tx.match.updateMany({ where: { sessionId, status: MatchStatus.SCHEDULED }, data: { status: MatchStatus.CANCELLED, version: { increment: 1 } } });
+    await tx.waitingQueueEntry.deleteMany({ where: { sessionId } });
+    return tx.session.update({ where: { id: sessionId }, data: { isActive: false, endedAt: new Date() } });
+  });
+  sessionEvents.publish(sessionId, { type: 'session.ended', sessionId });
+  sessionEvents.close(sessionId);
+  return session;
+}
+
+async function publishSession(sessionId: string) {
+  const session = await prisma.session.findUniqueOrThrow({ where: { id: sessionId }, include: { courtList: { orderBy: { number: 'asc' } }, venue: true } });
+  sessionEvents.publish(sessionId, { type: 'session.updated', session });
+  return session;
+}
+
+// Opens scheduled sessions whose start time has come and closes active ones past their end time.
+export async function sweepSessions() {
+  const now = new Date();
+  await prisma.session.updateMany({ where: { isActive: false, endedAt: null, startTime: { lte: now }, endTime: { gt: now } }, data: { isActive: true } });
+  const expired = await prisma.session.findMany({ where: { isActive: true, endTime: { lte: now } }, select: { id: true } });
+  for (const { id } of expired) await closeSession(id);
+  await replaceNoShows(now);
+}
+
+// Scheduled matches left unstarted past the session's no-show window swap every player who
+// has not confirmed they are here for the next players in the queue. Tournament fixtures
+// keep their teams.
+async function replaceNoShows(now: Date) {
+  const scheduled = await prisma.match.findMany({
+    where: { status: MatchStatus.SCHEDULED, tournamentId: null, session: { isActive: true, noShowMinutes: { not: null } } },
+    include: { session: { select: { noShowMinutes: true } } },
+  });
+  for (const match of scheduled) {
+    if (!noShowDue(match, match.session.noShowMinutes!, now)) continue;
+    try {
+      await replaceAbsentPlayers(match, now);
+    } catch (e) {
+      if (!(e instanceof ConflictError)) throw e;
+    }
+  }
+}
+
+async function replaceAbsentPlayers(match: Prisma.MatchGetPayload<{}>, now: Date) {
+  const absent = absentSlots(match);
+  // Everyone is here and simply has not pressed start yet.
+  if (absent.length === 0) return null;
+  const updated = await prisma.$transaction(async tx => {
+    const waiting = await tx.waitingQueueEntry.findMany({
+      where: { sessionId: match.sessionId, status: QueueStatus.WAITING, fixedPair: false },
+      orderBy: [{ position: 'asc' }, { joinedAt: 'asc' }],
+      take: absent.length,
+    });
+    // With nobody to bring in, leave the match alone and try again on the next sweep.
+    if (waiting.length === 0) return null;
+    const swaps = waiting.map((entry, i) => ({ slot: absent[i], noShowId: match[absent[i].player], replacementId: entry.userId }));
+    const claimed = await tx.waitingQueueEntry.deleteMany({ where: { id: { in: waiting.map(w => w.id) }, status: QueueStatus.WAITING } });
+    if (claimed.count !== waiting.length) throw new ConflictError('Queue changed while replacing no-shows');
+
+    const data: Prisma.MatchUncheckedUpdateManyInput = { lineupChangedAt: now };
+    for (const { slot, replacementId } of swaps) {
+      data[slot.player] = replacementId;
+      data[slot.present] = null;
+    }
+    const updated = await updateMatch(tx, match, data);
+    const noShows = swaps.map(s => s.noShowId);
+    await tx.noShow.createMany({ data: noShows.map(userId => ({ userId, sessionId: match.sessionId, matchId: match.id })) });
+    // They have left the hall as far as the session is concerned.
+    await tx.attendance.updateMany({ where: { sessionId: match.sessionId, userId: { in: noShows }, checkedOutAt: null }, data: { checkedOutAt: now } });
+    return updated;
+  });
+  if (updated) {
+    sessionEvents.publish(match.sessionId, { type: 'match.updated', match: updated });
+    await publishQueue(match.sessionId);
+  }
+  return updated;
+}
+
+// Five failed attempts per account or thirty per address within 15 minutes lock login out
+// until the oldest attempt ages out of the window.
+const LOGIN_WINDOW_MS = 15 * 60_000;
+const loginByAccount = new RateLimiter(5, LOGIN_WINDOW_MS);
+const loginByIp = new RateLimiter(30, LOGIN_WINDOW_MS);
+const resetByIp = new RateLimiter(5, LOGIN_WINDOW_MS);
+
+function tooManyAttempts(res: any, retryAfterMs: number) {
+  res.setHeader('Retry-After', Math.ceil(retryAfterMs / 1000));
+  return res.status(429).json({ error: 'Too many attempts; try again later' });
+}
+
+app.post('/api/auth/signup', async (req, res) => {
+  const schema = z.object({ email: z.string().email(), username: z.string().min(3), password: z.string().min(6) });
+  const parsed = schema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const { email, username, password } = parsed.data;
+  const existing = await prisma.user.findFirst({ where: { OR: [{ email }, { username }] } });
+  if (existing) return res.status(400).json({ error: 'Email or username already used' });
+  const passwordHash = await bcrypt.hash(password, 10);
+  // The very first account bootstraps the club as its admin.
+  const role = (await prisma.user.count()) === 0 ? Role.ADMIN : Role.PLAYER;
+  const user = await prisma.user.create({ data: { email, username, passwordHash, role } });
+  res.locals.actorId = user.id;
+  auditChange(res, { entity: 'User', entityId: user.id, after: accountUser(user) });
+  res.json({ ...(await issueTokens(user.id)), user: accountUser(user) });
+});
+
+app.post('/api/auth/login', async (req, res) => {
+  const schema = z.object({ emailOrUsername: z.string(), password: z.string() });
+  const parsed = schema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const { emailOrUsername, password } = parsed.data;
+  const ip = req.ip ?? 'unknown';
+  const account = emailOrUsername.toLowerCase();
+  const wait = Math.max(loginByIp.retryAfter(ip), loginByAccount.retryAfter(account));
+  if (wait > 0) return tooManyAttempts(res, wait);
+
+  const user = await prisma.user.findFirst({ where: { OR: [{ email: emailOrUsername }, { username: emailOrUsername }] } });
+  const ok = user ? await bcrypt.compare(password, user.passwordHash) : false;
+  if (!user || !ok) {
+    loginByIp.hit(ip);
+    loginByAccount.hit(account);
+    return res.status(400).json({ error: 'Invalid credentials' });
+  }
+  loginByAccount.reset(account);
+  res.locals.actorId = user.id;
+  res.json({ ...(await issueTokens(user.id)), user: accountUser(user) });
+});
+
+// Swaps a refresh token for a new pair. A token that was already used means it was copied,
+// so every token from that login is revoked and the user has to sign in again.
+app.post('/api/auth/refresh', async (req, res) => {
+  const parsed = z.object({ refreshToken: z.string() }).safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const stored = await prisma.refreshToken.findUnique({ where: { tokenHash: hashToken(parsed.data.refreshToken) }, include: { user: { select: accountUserSelect } } });
+  if (!stored || stored.expiresAt <= new Date()) return res.status(401).json({ error: 'Invalid refresh token' });
+  if (stored.revokedAt) {
+    await revokeRefreshTokens({ family: stored.family });
+    return res.status(401).json({ error: 'Invalid refresh token' });
+  }
+  const { count } = await prisma.refreshToken.updateMany({ where: { id: stored.id, revokedAt: null }, data: { revokedAt: new Date() } });
+  if (count === 0) return res.status(401).json({ error: 'Invalid refresh token' });
+  res.json({ ...(await issueTokens(stored.userId, stored.family)), user: stored.user });
+});
+
+app.post('/api/auth/logout', async (req, res) => {
+  const parsed = z.object({ refreshToken: z.string() }).safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const stored = await prisma.refreshToken.findUnique({ where: { tokenHash: hashToken(parsed.data.refreshToken) } });
+  if (stored) await revokeRefreshTokens({ family: stored.family });
+  res.json({ ok: true });
+});
+
+// Signs out every device. Access tokens already handed out stay valid until they expire.
+app.post('/api/auth/logout-all', authMiddleware, async (req: any, res) => {
+  await revokeRefreshTokens({ userId: req.userId });
+  res.json({ ok: true });
+});
+
+// Always answers the same way so the endpoint cannot be used to find out who is a member.
+app.post('/api/auth/password/forgot', async (req, res) => {
+  const parsed = z.object({ email: z.string().email() }).safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const ip = req.ip ?? 'unknown';
+  const wait = resetByIp.retryAfter(ip);
+  if (wait > 0) return tooManyAttempts(res, wait);
+  resetByIp.hit(ip);
+
+  const user = await prisma.user.findUnique({ where: { email: parsed.data.email } });
+  if (user) {
+    const reset = newOpaqueToken();
+    await prisma.passwordReset.create({ data: { userId: user.id, tokenHash: reset.hash, expiresAt: dayjs().add(RESET_TOKEN_MINUTES, 'minute').toDate() } });
+    await mail.send({
+      to: user.email,
+      subject: 'Reset your Badminton Scheduler password',
+      text: `Hi ${user.username},\n\nOpen this link within ${RESET_TOKEN_MINUTES} minutes to choose a new password:\n${APP_URL}/reset-password?token=${reset.token}\n\nIf you did not ask for this you can ignore this email.`,
+    });
+  }
+  res.json({ ok: true });
+});
+
+app.post('/api/auth/password/reset', async (req, res) => {
+  const parsed = z.object({ token: z.string(), password: z.string().min(6) }).safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const reset = await prisma.passwordReset.findUnique({ where: { tokenHash: hashToken(parsed.data.token) } });
+  if (!reset || reset.usedAt || reset.expiresAt <= new Date()) return res.status(400).json({ error: 'This reset link is invalid or has expired' });
+  const passwordHash = await bcrypt.hash(parsed.data.password, 10);
+  const claimed = await prisma.$transaction(async tx => {
+    const { count } = await tx.passwordReset.updateMany({ where: { id: reset.id, usedAt: null }, data: { usedAt: new Date() } });
+    if (count === 0) return false;
+    await tx.user.update({ where: { id: reset.userId }, data: { passwordHash } });
+    // A new password signs out every other device.
+    await tx.refreshToken.updateMany({ where: { userId: reset.userId, revokedAt: null }, data: { revokedAt: new Date() } });
+    return true;
+  });
+  if (!claimed) return res.status(400).json({ error: 'This reset link is invalid or has expired' });
+  res.json({ ok: true });
+});
+
+app.post('/api/session/start', authMiddleware, requireOrganizer, async (req, res) => {
+  const schema = z.object({
+    courts: z.number().min(1).max(20).optional(),
+    durationHours: z.number().min(1).max(6).default(3),
+    marginOfVictory: z.boolean().default(false),
+    autoRequeue: z.boolean().default(false),
+    startTime: z.coerce.date().optional(),
+    venueId: z.string().optional(),
+  });
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const { courts, durationHours, marginOfVictory, autoRequeue, venueId } = parsed.data;
+  const start = parsed.data.startTime ?? new Date();
+  const end = dayjs(start).add(durationHours, 'hour').toDate();
+  if (end <= new Date()) return res.status(400).json({ error: 'Session would already be over' });
+  if (venueId && !(await prisma.venue.findUnique({ where: { id: venueId } }))) return res.status(400).json({ error: 'Unknown venue' });
+  const session = await createSession({ startTime: start, endTime: end, courts, venueId, marginOfVictory, autoRequeue });
+  auditChange(res, { entity: 'Session', entityId: session.id, after: flatRow(session) });
+  res.json(session);
+});
+
+app.get('/api/session/active', async (req, res) => {
+  const venueId = typeof req.query.venueId === 'string' ? req.query.venueId : undefined;
+  const session = await prisma.session.findFirst({ where: { isActive: true, venueId }, include: { courtList: { orderBy: { number: 'asc' } }, venue: true }, orderBy: { createdAt: 'desc' } });
+  res.json(session);
+});
+
+app.get('/api/sessions', async (req, res) => {
+  const status = req.query.status;
+  const where = status === 'active' ? { isActive: true }
+    : status === 'scheduled' ? { isActive: false, endedAt: null }
+    : status === 'ended' ? { endedAt: { not: null } }
+    : {};
+  const sessions = await prisma.session.findMany({ where, include: { courtList: { orderBy: { number: 'asc' } }, venue: true }, orderBy: { startTime: 'asc' }, take: 100 });
+  res.json(sessions);
+});
+
+app.post('/api/session/:sessionId/end', authMiddleware, requireOrganizer, async (req, res) => {
+  const { sessionId } = req.params as any;
+  const existing = await prisma.session.findUnique({ where: { id: sessionId } });
+  if (!existing) return res.status(404).json({ error: 'Session not found' });
+  if (existing.endedAt) return res.status(409).json({ error: 'Session already ended' });
+  const session = await closeSession(sessionId);
+  auditChange(res, { entity: 'Session', entityId: sessionId, before: flatRow(existing), after: flatRow(session) });
+  res.json(session);
+});
+
+app.post('/api/session/:sessionId/courts', authMiddleware, requireOrganizer, async (req, res) => {
+  const schema = z.object({ name: z.string().min(1).max(50).optional() });
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const { sessionId } = req.params as any;
+  const existing = await prisma.session.findUnique({ where: { id: sessionId } });
+  if (!existing || existing.endedAt) return res.status(400).json({ error: 'Invalid session' });
+  await prisma.$transaction(async tx => {
+    const last = await tx.sessionCourt.aggregate({ where: { sessionId }, _max: { number: true } });
+    const number = (last._max.number ?? 0) + 1;
+    await tx.sessionCourt.create({ data: { sessionId, number, name: parsed.data.name ?? `Court ${number}` } });
+    await tx.session.update({ where: { id: sessionId }, data: { courts: { increment: 1 } } });
+  });
+  const session = await publishSession(sessionId);
+  await refillCourts(sessionId);
+  auditChange(res, { entity: 'Session', entityId: sessionId, after: session.courtList.map(flatRow) });
+  res.json(session);
+});
+
+// Closes a court for the rest of the session; it must not have a match scheduled or in play.
+app.delete('/api/session/:sessionId/courts/:number', authMiddleware, requireOrganizer, async (req, res) => {
+  const { sessionId } = req.params as any;
+  const number = Number(req.params.number);
+  const court = await prisma.sessionCourt.findUnique({ where: { sessionId_number: { sessionId, number } } });
+  if (!court || !court.isOpen) return res.status(404).json({ error: 'Court not found' });
+  const busy = await prisma.match.findFirst({ where: { sessionId, court: number, status: { in: ACTIVE_STATUSES } } });
+  if (busy) return res.status(409).json({ error: 'Court has a scheduled or ongoing match; cancel or finish it first' });
+  await prisma.$transaction(async tx => {
+    await dethrone(tx, court, 'front');
+    await tx.sessionCourt.update({ where: { id: court.id }, data: { isOpen: false } });
+    await tx.session.update({ where: { id: sessionId }, data: { courts: { decrement: 1 } } });
+  });
+  const session = await publishSession(sessionId);
+  await publishQueue(sessionId);
+  auditChange(res, { entity: 'SessionCourt', entityId: court.id, before: flatRow(court), after: flatRow(session.courtList.find(c => c.id === court.id)) });
+  res.json(session);
+});
+
+// Tiered courts are filled from their own rating band first; null opens a court to everyone.
+app.put('/api/session/:sessionId/courts/:number', authMiddleware, requireOrganizer, async (req, res) => {
+  const schema = z.object({ tier: z.enum(SkillTier).nullable() });
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const { sessionId } = req.params as any;
+  const number = Number(req.params.number);
+  const court = await prisma.sessionCourt.findUnique({ where: { sessionId_number: { sessionId, number } } });
+  if (!court || !court.isOpen) return res.status(404).json({ error: 'Court not found' });
+  await prisma.sessionCourt.update({ where: { id: court.id }, data: { tier: parsed.data.tier } });
+  const session = await publishSession(sessionId);
+  await refillCourts(sessionId);
+  auditChange(res, { entity: 'SessionCourt', entityId: court.id, before: flatRow(court), after: flatRow(session.courtList.find(c => c.id === court.id)) });
+  res.json(session);
+});
+
+// Takes a court off its holders between matches; they go to the front of the queue.
+app.delete('/api/session/:sessionId/courts/:number/king', authMiddleware, requireOrganizer, async (req, res) => {
+  const { sessionId } = req.params as any;
+  const number = Number(req.params.number);
+  const court = await prisma.sessionCourt.findUnique({ where: { sessionId_number: { sessionId, number } } });
+  if (!court || !court.kingP1Id) return res.status(404).json({ error: 'Nobody holds this court' });
+  const busy = await prisma.match.findFirst({ where: { sessionId, court: number, status: { in: ACTIVE_STATUSES } } });
+  if (busy) return res.status(409).json({ error: 'Court has a scheduled or ongoing match; cancel or finish it first' });
+  await prisma.$transaction(tx => dethrone(tx, court, 'front'));
+  const session = await publishSession(sessionId);
+  await publishQueue(sessionId);
+  await refillCourts(sessionId);
+  auditChange(res, { entity: 'SessionCourt', entityId: court.id, before: flatRow(court), after: flatRow(session.courtList.find(c => c.id === court.id)) });
+  res.json(session);
+});
+
+app.get('/api/venues', async (req, res) => {
+  const venues = await prisma.venue.findMany({ include: { courts: { orderBy: { number: 'asc' } } }, orderBy: { name: 'asc' } });
+  res.json(venues);
+});
+
+app.post('/api/venues', authMiddleware, requireAdmin, async (req, res) => {
+  const schema = z.object({ name: z.string().min(1).max(100), courts: z.array(z.string().min(1).max(50)).min(1).max(20) });
+  const parsed = schema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const { name, courts } = parsed.data;
+  if (await prisma.venue.findUnique({ where: { name } })) return res.status(400).json({ error: 'Venue name already used' });
+  const venue = await prisma.venue.create({
+    data: { name, courts: { create: courts.map((courtName, i) => ({ number: i + 1, name: courtName })) } },
+    include: { courts: { orderBy: { number: 'asc' } } },
+  });
+  auditChange(res, { entity: 'Venue', entityId: venue.id, after: { ...flatRow(venue), courts: venue.courts.map(flatRow) } });
+  res.json(venue);
+});
+
+async function checkedIn(sessionId: string, userId: string) {
+  return !!(await prisma.attendance.findFirst({ where: { sessionId, userId, checkedOutAt: null } }));
+}
+
+async function checkIn(sessionId: string, userId: string, checkedInById: string | null) {
+  return prisma.attendance.upsert({
+    where: { sessionId_userId: { sessionId, userId } },
+    update: { checkedInAt: new Date(), checkedOutAt: null, checkedInById },
+    create: { sessionId, userId, checkedInById },
+  });
+}
+
+function attendanceOf(sessionId: string, userId: string) {
+  return prisma.attendance.findUnique({ where: { sessionId_userId: { sessionId, userId } } });
+}
+
+// Leaving the hall also takes the player out of the queue. Returns the change for the audit log.
+async function checkOut(sessionId: string, userId: string): Promise<AuditChange> {
+  const [attendance, queueEntry] = await Promise.all([attendanceOf(sessionId, userId), ownEntry(sessionId, userId)]);
+  await prisma.attendance.updateMany({ where: { sessionId, userId, checkedOutAt: null }, data: { checkedOutAt: new Date() } });
+  await leaveQueue(sessionId, userId);
+  return {
+    entity: 'Attendance',
+    entityId: attendance?.id ?? null,
+    before: { attendance: flatRow(attendance), queueEntry: flatRow(queueEntry) },
+    after: { attendance: flatRow(await attendanceOf(sessionId, userId)), queueEntry: null },
+  };
+}
+
+app.get('/api/session/:sessionId/checkin-code', authMiddleware, requireOrganizer, async (req, res) => {
+  const { sessionId } = req.params as any;
+  const session = await prisma.session.findUnique({ where: { id: sessionId }, select: { checkInCode: true } });
+  if (!session) return res.status(404).json({ error: 'Session not found' });
+  res.json({ code: session.checkInCode });
+});
+
+// A new code stops anyone checking in with one that was shared outside the hall.
+app.post('/api/session/:sessionId/checkin-code', authMiddleware, requireOrganizer, async (req, res) => {
+  const { sessionId } = req.params as any;
+  const existing = await prisma.session.findUnique({ where: { id: sessionId }, select: { checkInCode: true } });
+  if (!existing) return res.status(404).json({ error: 'Session not found' });
+  const session = await prisma.session.update({ where: { id: sessionId }, data: { checkInCode: newCheckInCode() }, select: { checkInCode: true } });
+  // The log only shows that the code was replaced; redaction keeps both codes out of it.
+  auditChange(res, { entity: 'Session', entityId: sessionId, before: existing, after: session });
+  res.json({ code: session.checkInCode });
+});
+
+app.post('/api/session/:sessionId/checkin', authMiddleware, async (req: any, res) => {
+  const parsed = z.object({ code: z.string().trim().toUpperCase() }).safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const { sessionId } = req.params as any;
+  const session = await prisma.session.findUnique({ where: { id: sessionId }, select: { isActive: true, endedAt: true, checkInCode: true } });
+  if (!session || session.endedAt) return res.status(400).json({ error: 'Invalid session' });
+  if (!session.checkInCode || session.checkInCode !== parsed.data.code) return res.status(400).json({ error: 'That code is not right for this session' });
+  const before = await attendanceOf(sessionId, req.userId);
+  const attendance = await checkIn(sessionId, req.userId, null);
+  auditChange(res, { entity: 'Attendance', entityId: attendance.id, before: flatRow(before), after: flatRow(attendance) });
+  res.json(attendance);
+});
+
+app.post('/api/session/:sessionId/checkout', authMiddleware, async (req: any, res) => {
+  const { sessionId } = req.params as any;
+  auditChange(res, await checkOut(sessionId, req.userId));
+  res.json({ ok: true });
+});
+
+app.get('/api/session/:sessionId/attendance/me', authMiddleware, async (req: any, res) => {
+  const { sessionId } = req.params as any;
+  res.json({ checkedIn: await checkedIn(sessionId, req.userId) });
+});
+
+app.get('/api/session/:sessionId/attendance', authMiddleware, requireOrganizer, async (req, res) => {
+  const { sessionId } = req.params as any;
+  const attendance = await prisma.attendance.findMany({ where: { sessionId }, include: { user: { select: publicUserSelect } }, orderBy: { checkedInAt: 'asc' } });
+  res.json(attendance);
+});
+
+// Organizers check players in by tapping their names.
+app.post('/api/session/:sessionId/attendance/:userId', authMiddleware, requireOrganizer, async (req: any, res) => {
+  const { sessionId, userId } = req.params as any;
+  const session = await prisma.session.findUnique({ where: { id: sessionId } });
+  if (!session || session.endedAt) return res.status(400).json({ error: 'Invalid session' });
+  if (!(await prisma.user.findUnique({ where: { id: userId } }))) return res.status(404).json({ error: 'User not found' });
+  const before = await attendanceOf(sessionId, userId);
+  const attendance = await checkIn(sessionId, userId, req.userId);
+  auditChange(res, { entity: 'Attendance', entityId: attendance.id, before: flatRow(before), after: flatRow(attendance) });
+  res.json(attendance);
+});
+
+app.delete('/api/session/:sessionId/attendance/:userId', authMiddleware, requireOrganizer, async (req, res) => {
+  const { sessionId, userId } = req.params as any;
+  auditChange(res, await checkOut(sessionId, userId));
+  res.json({ ok: true });
+});
+
+app.post('/api/session/:sessionId/queue/join', authMiddleware, async (req: any, res) => {
+  const { sessionId } = req.params as any;
+  const session = await prisma.session.findUnique({ where: { id: sessionId } });
+  if (!session || !session.isActive) return res.status(400).json({ error: 'Invalid session' });
+  if (session.requireCheckIn && !(await checkedIn(sessionId, req.userId))) return res.status(403).json({ error: 'Check in at the hall before joining the queue' });
+  const playing = await prisma.match.findFirst({ where: { sessionId, status: { in: ACTIVE_STATUSES }, OR: [{ p1Id: req.userId }, { p2Id: req.userId }, { p3Id: req.userId }, { p4Id: req.userId }] } });
+  if (playing) return res.status(409).json({ error: 'You are already in a scheduled or ongoing match' });
+  // A pair holding a court under king of the court gives it up by joining the queue.
+  const held = await prisma.sessionCourt.findFirst({ where: { sessionId, OR: [{ kingP1Id: req.userId }, { kingP2Id: req.userId }] } });
+  if (held) {
+    await prisma.$transaction(tx => dethrone(tx, held, 'back'));
+    await publishSession(sessionId);
+  }
+  const existing = await ownEntry(sessionId, req.userId);
+  const currentMax = await prisma.waitingQueueEntry.aggregate({ where: { sessionId }, _max: { position: true } });
+  const position = (currentMax._max.position ?? 0) + 1;
+  const entry = await prisma.waitingQueueEntry.upsert({
+    where: { sessionId_userId: { sessionId, userId: req.userId } },
+    update: {},
+    create: { sessionId, userId: req.userId, position },
+  });
+  await publishQueue(sessionId);
+  auditChange(res, { entity: 'WaitingQueueEntry', entityId: entry.id, before: { queueEntry: flatRow(existing), court: flatRow(held) }, after: flatRow(entry) });
+  res.json(entry);
+});
+
+async function ownEntry(sessionId: string, userId: string) {
+  return prisma.waitingQueueEntry.findUnique({ where: { sessionId_userId: { sessionId, userId } } });
+}
+
+async function leaveQueue(sessionId: string, userId: string) {
+  await prisma.$transaction([
+    // A fixed pair is broken up when one of them leaves.
+    prisma.waitingQueueEntry.updateMany({ where: { sessionId, partnerId: userId, fixedPair: true }, data: { partnerId: null, fixedPair: false } }),
+    prisma.waitingQueueEntry.deleteMany({ where: { sessionId, userId } }),
+  ]);
+  await publishQueue(sessionId);
+}
+
+app.post('/api/session/:sessionId/queue/leave', authMiddleware, async (req: any, res) => {
+  const { sessionId } = req.params as any;
+  const entry = await ownEntry(sessionId, req.userId);
+  if (!entry) return res.status(404).json({ error: 'You are not in the queue' });
+  await leaveQueue(sessionId, req.userId);
+  auditChange(res, { entity: 'WaitingQueueEntry', entityId: entry.id, before: flatRow(entry), after: null });
+  res.json({ ok: true });
+});
+
+// Pausing keeps the player's place; they are skipped by matchmaking until they resume.
+app.post('/api/session/:sessionId/queue/pause', authMiddleware, async (req: any, res) => {
+  const { sessionId } = req.params as any;
+  const entry = await ownEntry(sessionId, req.userId);
+  if (!entry) return res.status(404).json({ error: 'You are not in the queue' });
+  const updated = await prisma.waitingQueueEntry.update({ where: { id: entry.id }, data: { status: QueueStatus.PAUSED } });
+  await publishQueue(sessionId);
+  auditChange(res, { entity: 'WaitingQueueEntry', entityId: entry.id, before: flatRow(entry), after: flatRow(updated) });
+  res.json(updated);
+});
+
+app.post('/api/session/:sessionId/queue/resume', authMiddleware, async (req: any, res) => {
+  const { sessionId } = req.params as any;
+  const entry = await ownEntry(sessionId, req.userId);
+  if (!entry) return res.status(404).json({ error: 'You are not in the queue' });
+  const updated = await prisma.waitingQueueEntry.update({ where: { id: entry.id }, data: { status: QueueStatus.WAITING } });
+  await publishQueue(sessionId);
+  auditChange(res, { entity: 'WaitingQueueEntry', entityId: entry.id, before: flatRow(entry), after: flatRow(updated) });
+  res.json(updated);
+});
+
+app.post('/api/session/:sessionId/queue/partner', authMiddleware, async (req: any, res) => {
+  const schema = z.object({ partnerId: z.string().nullable() });
+  const parsed = schema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const { partnerId } = parsed.data;
+  const { sessionId } = req.params as any;
+  const entry = await ownEntry(sessionId, req.userId);
+  if (!entry) return res.status(404).json({ error: 'You are not in the queue' });
+  if (entry.fixedPair) return res.status(409).json({ error: 'You are in a fixed pair; ask an organizer to change it' });
+  if (partnerId === req.userId) return res.status(400).json({ error: 'You cannot partner yourself' });
+  if (partnerId && !(await prisma.user.findUnique({ where: { id: partnerId } }))) return res.status(404).json({ error: 'User not found' });
+  const updated = await prisma.waitingQueueEntry.update({ where: { id: entry.id }, data: { partnerId } });
+  await publishQueue(sessionId);
+  auditChange(res, { entity: 'WaitingQueueEntry', entityId: entry.id, before: flatRow(entry), after: flatRow(updated) });
+  res.json(updated);
+});
+
+app.post('/api/session/:sessionId/queue/pair', authMiddleware, requireOrganizer, async (req, res) => {
+  const schema = z.object({ userIds: z.tuple([z.string(), z.string()]) });
+  const parsed = schema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const [a, b] = parsed.data.userIds;
+  const { sessionId } = req.params as any;
+  if (a === b) return res.status(400).json({ error: 'A pair needs two different players' });
+  const entries = await prisma.waitingQueueEntry.findMany({ where: { sessionId, userId: { in: [a, b] } } });
+  if (entries.length !== 2) return res.status(400).json({ error: 'Both players must be in the queue' });
+  if (entries.some(e => e.fixedPair)) return res.status(409).json({ error: 'A player is already in a fixed pair' });
+  const paired = await prisma.$transaction([
+    prisma.waitingQueueEntry.update({ where: { sessionId_userId: { sessionId, userId: a } }, data: { partnerId: b, fixedPair: true } }),
+    prisma.waitingQueueEntry.update({ where: { sessionId_userId: { sessionId, userId: b } }, data: { partnerId: a, fixedPair: true } }),
+  ]);
+  await publishQueue(sessionId);
+  auditChange(res, { entity: 'Session', entityId: sessionId, before: entries.map(flatRow), after: paired.map(flatRow) });
+  res.json({ ok: true });
+});
+
+// Organizers drag the queue into a new order; the list must still match the queue exactly.
+app.put('/api/session/:sessionId/queue/order', authMiddleware, requireOrganizer, async (req, res) => {
+  const schema = z.object({ userIds: z.array(z.string()).max(500) });
+  const parsed = schema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const { userIds } = parsed.data;
+  const { sessionId } = req.params as any;
+  const before = await prisma.$transaction(async tx => {
+    const entries = await tx.waitingQueueEntry.findMany({ where: { sessionId }, select: { userId: true }, orderBy: { position: 'asc' } });
+    if (entries.length !== userIds.length || entries.some(e => !userIds.includes(e.userId))) {
+      throw new ConflictError('Queue changed while you were editing it; reload and try again');
+    }
+    for (const [i, userId] of userIds.entries()) {
+      await tx.waitingQueueEntry.update({ where: { sessionId_userId: { sessionId, userId } }, data: { position: i + 1 } });
+    }
+    return entries.map(e => e.userId);
+  });
+  await publishQueue(sessionId);
+  auditChange(res, { entity: 'Session', entityId: sessionId, before: { queue: before }, after: { queue: userIds } });
+  res.json({ ok: true });
+});
+
+app.delete('/api/session/:sessionId/queue/pair/:userId', authMiddleware, requireOrganizer, async (req, res) => {
+  const { sessionId, userId } = req.params as any;
+  const entry = await ownEntry(sessionId, userId);
+  if (!entry || !entry.fixedPair) return res.status(404).json({ error: 'Player is not in a fixed pair' });
+  const pair = { sessionId, userId: { in: [userId, entry.partnerId!] } };
+  const before = await prisma.waitingQueueEntry.findMany({ where: pair });
+  await prisma.waitingQueueEntry.updateMany({ where: pair, data: { partnerId: null, fixedPair: false } });
+  await publishQueue(sessionId);
+  auditChange(res, { entity: 'Session', entityId: sessionId, before: before.map(flatRow), after: (await prisma.waitingQueueEntry.findMany({ where: pair })).map(flatRow) });
+  res.json({ ok: true });
+});
+
+app.get('/api/session/:sessionId/events', (req, res) => {
+  const { sessionId } = req.params as any;
+  sessionEvents.subscribe(sessionId, res);
+});
+
+app.get('/api/session/:sessionId/queue', async (req, res) => {
+  const { sessionId } = req.params as any;
+  const queue = await prisma.waitingQueueEntry.findMany({ where: { sessionId }, include: { user: { select: publicUserSelect } }, orderBy: { position: 'asc' } });
+  res.json(queue);
+});
+
+app.post('/api/session/:sessionId/generate', authMiddleware, requireOrganizer, async (req, res) => {
+  const { sessionId } = req.params as any;
+  const session = await prisma.session.findUnique({ where: { id: sessionId } });
+  if (!session || !session.isActive) return res.status(400).json({ error: 'Invalid session' });
+  try {
+    const fixtures = await assignTournamentCourts(sessionId);
+    const created = await generateUpcomingMatches(sessionId);
+    auditChange(res, { entity: 'Session', entityId: sessionId, after: [...fixtures, ...created].map(flatRow) });
+    res.json([...fixtures, ...created]);
+  } catch (e: any) {
+    if (e instanceof ConflictError) return res.status(409).json({ error: e.message });
+    res.status(400).json({ error: e.message });
+  }
+});
+
+app.get('/api/session/:sessionId/matchmaking', async (req, res) => {
+  const { sessionId } = req.params as any;
+  const session = await prisma.session.findUnique({ where: { id: sessionId } });
+  if (!session) return res.status(404).json({ error: 'Session not found' });
+  res.json({ weights: sessionWeights(session), seed: session.matchmakingSeed });
+});
+
+app.put('/api/session/:sessionId/matchmaking', authMiddleware, requireOrganizer, async (req, res) => {
+  const weight = z.number().min(0).max(100);
+  const schema = z.object({
+    weights: z.object({ wait: weight, balance: weight, partnerRepeat: weight, opponentRepeat: weight, partnerRequest: weight }).partial().default({}),
+    seed: z.number().int().nullable().optional(),
+  });
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const { weights, seed } = parsed.data;
+  const { sessionId } = req.params as any;
+  const existing = await prisma.session.findUnique({ where: { id: sessionId } });
+  if (!existing) return res.status(404).json({ error: 'Session not found' });
+  const session = await prisma.session.update({ where: { id: sessionId }, data: {
+    waitWeight: weights.wait,
+    balanceWeight: weights.balance,
+    partnerRepeatWeight: weights.partnerRepeat,
+    opponentRepeatWeight: weights.opponentRepeat,
+    partnerRequestWeight: weights.partnerRequest,
+    matchmakingSeed: seed,
+  } });
+  auditChange(res, { entity: 'Session', entityId: sessionId, before: flatRow(existing), after: flatRow(session) });
+  res.json({ weights: sessionWeights(session), seed: session.matchmakingSeed });
+});
+
+app.put('/api/session/:sessionId/settings', authMiddleware, requireOrganizer, async (req, res) => {
+  const schema = z.object({
+    marginOfVictory: z.boolean().optional(),
+    autoRequeue: z.boolean().optional(),
+    requireCheckIn: z.boolean().optional(),
+    noShowMinutes: z.number().int().min(1).max(60).nullable().optional(),
+    courtPolicy: z.enum(CourtPolicy).optional(),
+    kingMaxWins: z.number().int().min(1).max(20).optional(),
+    tierOverflow: z.enum(TierOverflow).optional(),
+    advancedMinRating: z.number().min(0).max(5000).optional(),
+    intermediateMinRating: z.number().min(0).max(5000).optional(),
+  });
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const { sessionId } = req.params as any;
+  const existing = await prisma.session.findUnique({ where: { id: sessionId } });
+  if (!existing) return res.status(404).json({ error: 'Session not found' });
+  const bands = { ...existing, ...parsed.data };
+  if (bands.intermediateMinRating >= bands.advancedMinRating) return res.status(400).json({ error: 'The intermediate band must start below the advanced band' });
+  await prisma.$transaction(async tx => {
+    await tx.session.update({ where: { id: sessionId }, data: parsed.data });
+    // Leaving king of the court sends any waiting holders back to the queue; holders
+    // still on court are released like everyone else when their match ends.
+    if (parsed.data.courtPolicy === CourtPolicy.ROTATE) {
+      const held = await tx.sessionCourt.findMany({ where: { sessionId, kingP1Id: { not: null } } });
+      const busy = await tx.match.findMany({ where: { sessionId, status: { in: ACTIVE_STATUSES } }, select: { court: true } });
+      for (const court of held) {
+        if (busy.some(m => m.court === court.number)) await tx.sessionCourt.update({ where: { id: court.id }, data: NO_KINGS });
+        else await dethrone(tx, court, 'front');
+      }
+    }
+  });
+  const session = await publishSession(sessionId);
+  await publishQueue(sessionId);
+  auditChange(res, { entity: 'Session', entityId: sessionId, before: flatRow(existing), after: flatRow(session) });
+  res.json(session);
+});
+
+app.get('/api/session/:sessionId/matches', async (req, res) => {
+  const { sessionId } = req.params as any;
+  const matches = await prisma.match.findMany({ where: { sessionId }, include: playerInclude, orderBy: { createdAt: 'desc' } });
+  res.json(matches);
+});
+
+app.get('/api/session/:sessionId/estimates', async (req, res) => {
+  const { sessionId } = req.params as any;
+  const session = await prisma.session.findUnique({ where: { id: sessionId }, include: { courtList: { where: { isOpen: true }, orderBy: { number: 'asc' } } } });
+  if (!session) return res.status(404).json({ error: 'Session not found' });
+  const finished = { status: MatchStatus.FINISHED, startedAt: { not: null }, endedAt: { not: null } };
+  let durations = (await prisma.match.findMany({ where: { sessionId, ...finished }, select: { startedAt: true, endedAt: true } })).map(durationMinutes).filter((d): d is number => d !== null);
+  const sampleSize = durations.length;
+  // Early in a session fall back to the club's recent matches.
+  if (durations.length === 0) {
+    durations = (await prisma.match.findMany({ where: finished, select: { startedAt: true, endedAt: true }, orderBy: { endedAt: 'desc' }, take: 200 })).map(durationMinutes).filter((d): d is number => d !== null);
+  }
+  const typicalMinutes = median(durations) ?? DEFAULT_MATCH_MINUTES;
+
+  const [active, queue] = await Promise.all([
+    prisma.match.findMany({ where: { sessionId, status: { in: ACTIVE_STATUSES } }, select: { id: true, court: true, status: true, startedAt: true } }),
+    prisma.waitingQueueEntry.findMany({ where: { sessionId, status: QueueStatus.WAITING }, include: { user: { select: { username: true } } }, orderBy: [{ position: 'asc' }, { joinedAt: 'asc' }] }),
+  ]);
+  const { courts, players } = estimateWaits(session.courtList.map(c => c.number), active as CourtMatch[], queue.map(q => q.userId), typicalMinutes);
+  const names = new Map(queue.map(q => [q.userId, q.user.username]));
+  res.json({
+    typicalMinutes,
+    sampleSize,
+    courts: courts.map(c => ({ ...c, name: session.courtList.find(x => x.number === c.court)?.name })),
+    players: players.map((p, i) => ({ ...p, username: names.get(p.userId), position: i + 1 })),
+  });
+});
+
+const versionSchema = z.object({ version: z.number().int().optional() });
+
+// With auto-requeue on, players go to the back of the queue as soon as their match is over.
+// Tournament players are left out; their next fixture finds them.
+async function autoRequeue(tx: Prisma.TransactionClient, match: { sessionId: string; tournamentId: string | null; p1Id: string; p2Id: string; p3Id: string; p4Id: string }) {
+  const session = await tx.session.findUniqueOrThrow({ where: { id: match.sessionId } });
+  if (!session.autoRequeue || !session.isActive || match.tournamentId) return;
+  await requeuePlayers(tx, match.sessionId, [match.p1Id, match.p2Id, match.p3Id, match.p4Id], 'back');
+}
+
+const NO_KINGS = { kingP1Id: null, kingP2Id: null, kingWins: 0 };
+
+// King of the court: the winners stay on until they reach the session's win limit and the
+// losers go to the back of the queue, whatever the auto-requeue setting. Other sessions
+// fall back to auto-requeue. Returns whether the court changed hands.
+async function releasePlayers(tx: Prisma.TransactionClient, match: Parameters<typeof autoRequeue>[1] & { court: number; winnerTeam: number | null }) {
+  const session = await tx.session.findUniqueOrThrow({ where: { id: match.sessionId } });
+  if (session.courtPolicy !== CourtPolicy.KING_OF_THE_COURT || !session.isActive || match.tournamentId || !match.winnerTeam) {
+    await autoRequeue(tx, match);
+    return false;
+  }
+  const court = await tx.sessionCourt.findUniqueOrThrow({ where: { sessionId_number: { sessionId: match.sessionId, number: match.court } } });
+  const [winners, losers] = match.winnerTeam === 1 ? [[match.p1Id, match.p2Id], [match.p3Id, match.p4Id]] : [[match.p3Id, match.p4Id], [match.p1Id, match.p2Id]];
+  const defending = [court.kingP1Id, court.kingP2Id].every(id => id && winners.includes(id));
+  const wins = defending ? court.kingWins + 1 : 1;
+  const stepDown = wins >= session.kingMaxWins || !court.isOpen;
+  await tx.sessionCourt.update({ where: { id: court.id }, data: stepDown ? NO_KINGS : { kingP1Id: winners[0], kingP2Id: winners[1], kingWins: wins } });
+  await requeuePlayers(tx, match.sessionId, stepDown ? [...losers, ...winners] : losers, 'back');
+  return true;
+}
+
+// A court's holders lose it when their own match is cancelled or voided.
+async function clearKings(tx: Prisma.TransactionClient, match: { sessionId: string; court: number; p1Id: string; p2Id: string; p3Id: string; p4Id: string }) {
+  const { count } = await tx.sessionCourt.updateMany({ where: { sessionId: match.sessionId, number: match.court, kingP1Id: { in: [match.p1Id, match.p2Id, match.p3Id, match.p4Id] } }, data: NO_KINGS });
+  return count > 0;
+}
+
+// Sends a court's waiting holders back to the queue.
+async function dethrone(tx: Prisma.TransactionClient, court: { id: string; sessionId: string; kingP1Id: string | null; kingP2Id: string | null }, at: 'front' | 'back') {
+  await tx.sessionCourt.update({ where: { id: court.id }, data: NO_KINGS });
+  const kings = [court.kingP1Id, court.kingP2Id].filter((id): id is string => !!id);
+  if (kings.length) await requeuePlayers(tx, court.sessionId, kings, at);
+}
+
+app.post('/api/match/:matchId/start', authMiddleware, requireRole(Role.ADMIN, Role.ORGANIZER, Role.PLAYER), async (req: any, res) => {
+  const parsed = versionSchema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const { matchId } = req.params as any;
+  const existing = await prisma.match.findUnique({ where: { id: matchId } });
+  if (!existing) return res.status(404).json({ error: 'Match not found' });
+  if (!isOrganizer(req.userRole) && !playedIn(existing, req.userId)) return res.status(403).json({ error: 'Only players in this match or an organizer can start it' });
+  checkVersion(existing, parsed.data.version);
+  const match = await prisma.$transaction(tx => updateMatch(tx, existing, { startedAt: new Date() }, MatchStatus.ONGOING));
+  sessionEvents.publish(match.sessionId, { type: 'match.started', match });
+  auditChange(res, { entity: 'Match', entityId: match.id, before: flatRow(existing), after: flatRow(match) });
+  res.json(match);
+});
+
+// The "I'm here" answer to the prompt players get when their match is scheduled.
+app.post('/api/match/:matchId/present', authMiddleware, async (req: any, res) => {
+  const { matchId } = req.params as any;
+  const existing = await prisma.match.findUnique({ where: { id: matchId } });
+  if (!existing) return res.status(404).json({ error: 'Match not found' });
+  const slot = slotOf(existing, req.userId);
+  if (!slot) return res.status(403).json({ error: 'You are not in this match' });
+  if (existing.status !== MatchStatus.SCHEDULED) return res.status(409).json({ error: 'Match has already started or ended' });
+  if (existing[slot.present]) return res.json(existing);
+  const match = await prisma.$transaction(tx => updateMatch(tx, existing, { [slot.present]: new Date() }));
+  auditChange(res, { entity: 'Match', entityId: match.id, before: flatRow(existing), after: flatRow(match) });
+  sessionEvents.publish(match.sessionId, { type: 'match.updated', match });
+  res.json(match);
+});
+
+// Cancelling a match that never started puts its players back at the front of the queue;
+// a tournament fixture is simply scheduled again.
+app.post('/api/match/:matchId/cancel', authMiddleware, requireOrganizer, async (req, res) => {
+  const parsed = versionSchema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const { matchId } = req.params as any;
+  const existing = await prisma.match.findUnique({ where: { id: matchId } });
+  if (!existing) return res.status(404).json({ error: 'Match not found' });
+  checkVersion(existing, parsed.data.version);
+  const { match, kingsCleared } = await prisma.$transaction(async tx => {
+    const cancelled = await updateMatch(tx, existing, {}, MatchStatus.CANCELLED);
+    const kingsCleared = await clearKings(tx, existing);
+    if (!existing.tournamentId) await requeuePlayers(tx, existing.sessionId, [existing.p1Id, existing.p2Id, existing.p3Id, existing.p4Id], 'front');
+    return { match: cancelled, kingsCleared };
+  });
+  sessionEvents.publish(match.sessionId, { type: 'match.cancelled', match });
+  if (kingsCleared) await publishSession(match.sessionId);
+  await publishQueue(match.sessionId);
+  await refillCourts(match.sessionId);
+  auditChange(res, { entity: 'Match', entityId: match.id, before: flatRow(existing), after: flatRow(match) });
+  res.json(match);
+});
+
+// Voiding abandons a match in progress without touching ratings.
+app.post('/api/match/:matchId/void', authMiddleware, requireOrganizer, async (req, res) => {
+  const parsed = versionSchema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const { matchId } = req.params as any;
+  const existing = await prisma.match.findUnique({ where: { id: matchId } });
+  if (!existing) return res.status(404).json({ error: 'Match not found' });
+  checkVersion(existing, parsed.data.version);
+  const { match, kingsCleared } = await prisma.$transaction(async tx => {
+    const voided = await updateMatch(tx, existing, { endedAt: new Date() }, MatchStatus.VOID);
+    const kingsCleared = await clearKings(tx, voided);
+    await autoRequeue(tx, voided);
+    return { match: voided, kingsCleared };
+  });
+  sessionEvents.publish(match.sessionId, { type: 'match.voided', match });
+  if (kingsCleared) await publishSession(match.sessionId);
+  await publishQueue(match.sessionId);
+  await refillCourts(match.sessionId);
+  auditChange(res, { entity: 'Match', entityId: match.id, before: flatRow(existing), after: flatRow(match) });
+  res.json(match);
+});
+
+// Manual lineups from the organizer's court board. Players may come from anywhere in the
+// queue, paused or not, but not from another scheduled or ongoing match.
+async function assertFree(tx: Prisma.TransactionClient, sessionId: string, userIds: string[], exceptMatchIds: string[] = []) {
+  if (new Set(userIds).size !== userIds.length) throw new ConflictError('A player can only be in a match once');
+  const busy = await tx.match.findFirst({ where: { sessionId, id: { notIn: exceptMatchIds }, status: { in: ACTIVE_STATUSES }, OR: SLOTS.map(s => ({ [s.player]: { in: userIds } })) } });
+  if (busy) throw new ConflictError(`A player is already in the match on court ${busy.court}`);
+}
+
+const lineupSchema = z.tuple([z.string(), z.string(), z.string(), z.string()]);
+
+app.post('/api/session/:sessionId/matches', authMiddleware, requireOrganizer, async (req, res) => {
+  const schema = z.object({ court: z.number().int(), playerIds: lineupSchema });
+  const parsed = schema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const { court, playerIds } = parsed.data;
+  const { sessionId } = req.params as any;
+  const session = await prisma.session.findUnique({ where: { id: sessionId } });
+  if (!session || !session.isActive) return res.status(400).json({ error: 'Invalid session' });
+  const sessionCourt = await prisma.sessionCourt.findUnique({ where: { sessionId_number: { sessionId, number: court } } });
+  if (!sessionCourt?.isOpen) return res.status(404).json({ error: 'Court not found' });
+  const players = await prisma.user.count({ where: { id: { in: playerIds } } });
+  if (players !== 4) return res.status(400).json({ error: 'Unknown player' });
+  const match = await prisma.$transaction(async tx => {
+    const busy = await tx.match.findFirst({ where: { sessionId, court, status: { in: ACTIVE_STATUSES } } });
+    if (busy) throw new ConflictError('Court already has a scheduled or ongoing match');
+    await assertFree(tx, sessionId, playerIds);
+    await tx.waitingQueueEntry.deleteMany({ where: { sessionId, userId: { in: playerIds } } });
+    const [p1Id, p2Id, p3Id, p4Id] = playerIds;
+    return tx.match.create({ data: { sessionId, court, status: MatchStatus.SCHEDULED, p1Id, p2Id, p3Id, p4Id }, include: playerInclude });
+  });
+  sessionEvents.publish(sessionId, { type: 'match.scheduled', matches: [match] });
+  await publishQueue(sessionId);
+  auditChange(res, { entity: 'Match', entityId: match.id, after: flatRow(match) });
+  res.json(match);
+});
+
+// Replaces players in a scheduled match. Anyone taken off goes to the front of the queue;
+// players who stay keep their presence confirmation.
+app.put('/api/match/:matchId/players', authMiddleware, requireOrganizer, async (req, res) => {
+  const parsed = versionSchema.extend({ playerIds: lineupSchema }).safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const { matchId } = req.params as any;
+  const existing = await prisma.match.findUnique({ where: { id: matchId } });
+  if (!existing) return res.status(404).json({ error: 'Match not found' });
+  if (existing.status !== MatchStatus.SCHEDULED) return res.status(409).json({ error: 'Only scheduled matches can be changed' });
+  if (existing.tournamentId) return res.status(409).json({ error: 'Tournament lineups are set by the draw' });
+  const { playerIds } = parsed.data;
+  const players = await prisma.user.count({ where: { id: { in: playerIds } } });
+  if (players !== 4) return res.status(400).json({ error: 'Unknown player' });
+  checkVersion(existing, parsed.data.version);
+  const before: string[] = SLOTS.map(s => existing[s.player]);
+  const match = await prisma.$transaction(async tx => {
+    await assertFree(tx, existing.sessionId, playerIds, [existing.id]);
+    const data: Prisma.MatchUncheckedUpdateManyInput = { lineupChangedAt: new Date() };
+    for (const [i, slot] of SLOTS.entries()) {
+      data[slot.player] = playerIds[i];
+      if (playerIds[i] !== before[i]) data[slot.present] = null;
+    }
+    const updated = await updateMatch(tx, existing, data);
+    await tx.waitingQueueEntry.deleteMany({ where: { sessionId: existing.sessionId, userId: { in: playerIds.filter(id => !before.includes(id)) } } });
+    await requeuePlayers(tx, existing.sessionId, before.filter(id => !playerIds.includes(id)), 'front');
+    return updated;
+  });
+  sessionEvents.publish(match.sessionId, { type: 'match.updated', match });
+  await publishQueue(match.sessionId);
+  auditChange(res, { entity: 'Match', entityId: match.id, before: flatRow(existing), after: flatRow(match) });
+  res.json(match);
+});
+
+// Swaps two players between scheduled matches in one step.
+app.post('/api/session/:sessionId/matches/swap', authMiddleware, requireOrganizer, async (req, res) => {
+  const side = z.object({ matchId: z.string(), userId: z.string(), version: z.number().int().optional() });
+  const parsed = z.object({ a: side, b: side }).safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const { a, b } = parsed.data;
+  const { sessionId } = req.params as any;
+  if (a.matchId === b.matchId) return res.status(400).json({ error: 'Pick players from two different matches' });
+  const found = await prisma.match.findMany({ where: { sessionId, id: { in: [a.matchId, b.matchId] } } });
+  const ma = found.find(m => m.id === a.matchId);
+  const mb = found.find(m => m.id === b.matchId);
+  if (!ma || !mb) return res.status(404).json({ error: 'Match not found' });
+  const sa = slotOf(ma, a.userId);
+  const sb = slotOf(mb, b.userId);
+  if (!sa || !sb) return res.status(400).json({ error: 'Player is not in that match' });
+  if (ma.status !== MatchStatus.SCHEDULED || mb.status !== MatchStatus.SCHEDULED) return res.status(409).json({ error: 'Only scheduled matches can be changed' });
+  if (ma.tournamentId || mb.tournamentId) return res.status(409).json({ error: 'Tournament lineups are set by the draw' });
+  checkVersion(ma, a.version);
+  checkVersion(mb, b.version);
+  const now = new Date();
+  const matches = await prisma.$transaction(async tx => [
+    await updateMatch(tx, ma, { [sa.player]: b.userId, [sa.present]: null, lineupChangedAt: now }),
+    await updateMatch(tx, mb, { [sb.player]: a.userId, [sb.present]: null, lineupChangedAt: now }),
+  ]);
+  for (const match of matches) sessionEvents.publish(sessionId, { type: 'match.updated', match });
+  auditChange(res, { entity: 'Match', entityId: ma.id, before: [ma, mb].map(flatRow), after: matches.map(flatRow) });
+  res.json(matches);
+});
+
+const resultSchema = z.object({
+  winnerTeam: z.number().min(1).max(2).optional(),
+  scores: z.array(z.tuple([z.number().int(), z.number().int()])).optional(),
+  version: z.number().int().optional(),
+});
+
+// Works out the winner from a result body; scores win over winnerTeam but both must agree.
+function readResult(body: z.infer<typeof resultSchema>): { winnerTeam: number; scores: GameScore[] | null } | { error: string } {
+  if (!body.scores) {
+    if (!body.winnerTeam) return { error: 'Provide winnerTeam or scores' };
+    return { winnerTeam: body.winnerTeam, scores: null };
+  }
+  const outcome = matchWinner(body.scores);
+  if ('error' in outcome) return outcome;
+  if (body.winnerTeam && body.winnerTeam !== outcome.winner) return { error: 'winnerTeam does not match the scores' };
+  return { winnerTeam: outcome.winner, scores: body.scores };
+}
+
+function teamOf(match: { p1Id: string; p2Id: string; p3Id: string; p4Id: string }, userId: string) {
+  if (match.p1Id === userId || match.p2Id === userId) return 1;
+  if (match.p3Id === userId || match.p4Id === userId) return 2;
+  return null;
+}
+
+type RatedUser = { id: string; rating: number; ratingDeviation: number; volatility: number; ratedMatches: number };
+
+function playerRating(u: RatedUser): PlayerRating {
+  return { id: u.id, rating: u.rating, rd: u.ratingDeviation, volatility: u.volatility, games: u.ratedMatches };
+}
+
+function teamsOf(match: { p1: RatedUser; p2: RatedUser; p3: RatedUser; p4: RatedUser }): Teams {
+  return [[playerRating(match.p1), playerRating(match.p2)], [playerRating(match.p3), playerRating(match.p4)]];
+}
+
+/**
+ * Replays every FINISHED match in the order it ended, starting all players from the
+ * default rating. With `dryRun` nothing is written and the resulting ratings are returned,
+ * which is handy for trying out a different config.
+ */
+async function recalculateRatings(config: RatingConfig, dryRun: boolean) {
+  const users = await prisma.user.findMany({ select: { id: true } });
+  const state = new Map<string, PlayerRating>(users.map(u => [u.id, { id: u.id, rating: DEFAULT_RATING, rd: DEFAULT_RD, volatility: DEFAULT_VOLATILITY, games: 0 }]));
+  const unrated = await prisma.tournament.findMany({ where: { countsForRating: false }, select: { id: true } });
+  const matches = await prisma.match.findMany({
+    where: { status: MatchStatus.FINISHED, winnerTeam: { not: null }, OR: [{ tournamentId: null }, { tournamentId: { notIn: unrated.map(t => t.id) } }] },
+    include: { session: { select: { marginOfVictory: true } } },
+    orderBy: [{ endedAt: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  const history: { userId: string; change: number; rating: number; matchId: string; createdAt: Date }[] = [];
+  for (const m of matches) {
+    const teams: Teams = [[state.get(m.p1Id)!, state.get(m.p2Id)!], [state.get(m.p3Id)!, state.get(m.p4Id)!]];
+    const multiplier = m.session.marginOfVictory && m.scores ? marginMultiplier(parseScores(m.scores)) : 1;
+    for (const u of rateMatch(teams, m.winnerTeam!, config, multiplier)) {
+      state.set(u.id, { id: u.id, rating: u.rating, rd: u.rd, volatility: u.volatility, games: state.get(u.id)!.games + 1 });
+      history.push({ userId: u.id, change: u.change, rating: u.rating, matchId: m.id, createdAt: m.endedAt ?? m.updatedAt });
+    }
+  }
+
+  const ratings = [...state.values()];
+  if (!dryRun) {
+    await prisma.$transaction([
+      prisma.ratingHistory.deleteMany({}),
+      ...ratings.map(r => prisma.user.update({ where: { id: r.id }, data: { rating: r.rating, ratingDeviation: r.rd, volatility: r.volatility, ratedMatches: r.games } })),
+      prisma.ratingHistory.createMany({ data: history }),
+    ]);
+  }
+  return { matches: matches.length, ratings };
+}
+
+// Records the winner of a tournament fixture, moves knockout winners on to their next
+// fixture and finishes the tournament once every fixture has a winner.
+async function advanceFixture(tx: Prisma.TransactionClient, matchId: string, winnerTeam: number) {
+  const fixture = await tx.tournamentFixture.findUnique({ where: { matchId }, include: { tournament: true } });
+  if (!fixture) return null;
+  const winnerId = winnerTeam === 1 ? fixture.team1Id : fixture.team2Id;
+  await tx.tournamentFixture.update({ where: { id: fixture.id }, data: { winnerId } });
+  if (fixture.tournament.format === TournamentFormat.KNOCKOUT) {
+    const next = nextKnockoutSlot(fixture.round, fixture.slot);
+    await tx.tournamentFixture.updateMany({ where: { tournamentId: fixture.tournamentId, round: next.round, slot: next.slot }, data: { [next.side]: winnerId } });
+  }
+  const open = await tx.tournamentFixture.count({ where: { tournamentId: fixture.tournamentId, winnerId: null } });
+  if (open === 0) await tx.tournament.update({ where: { id: fixture.tournamentId }, data: { status: TournamentStatus.FINISHED } });
+  return fixture.tournament;
+}
+
+type VersionedMatch = { id: string; sessionId: string; status: MatchStatus; version: number; scores: string | null; resultStatus: ResultStatus | null };
+
+// Applies a confirmed result: the status change, rating updates and history rows commit
+// together, then the freed court is refilled. Tournament matches only move ratings when
+// the tournament counts for rating. A result entered again after an undo only re-rates;
+// its players and court moved on long ago.
+async function confirmResult(match: VersionedMatch, winnerTeam: number, scores: GameScore[] | null, confirmedById: string) {
+  const reentry = match.resultStatus === ResultStatus.REENTRY;
+  const { updated, updates, tournament, courtChanged } = await prisma.$transaction(async tx => {
+    const updated = await updateMatch(tx, match, {
+      winnerTeam,
+      scores: scores ? formatScores(scores) : match.scores,
+      resultStatus: ResultStatus.CONFIRMED,
+      confirmedById,
+      ...(reentry ? {} : { endedAt: new Date() }),
+    }, reentry ? undefined : MatchStatus.FINISHED);
+    const tournament = await advanceFixture(tx, match.id, winnerTeam);
+    const session = await tx.session.findUniqueOrThrow({ where: { id: match.sessionId } });
+    const multiplier = session.marginOfVictory && scores ? marginMultiplier(scores) : 1;
+    const updates = !tournament || tournament.countsForRating ? rateMatch(teamsOf(updated), winnerTeam, ratingConfig, multiplier) : [];
+    for (const u of updates) {
+      await tx.user.update({ where: { id: u.id }, data: { rating: u.rating, ratingDeviation: u.rd, volatility: u.volatility, ratedMatches: { increment: 1 } } });
+    }
+    await tx.ratingHistory.createMany({ data: updates.map(u => ({ userId: u.id, change: u.change, rating: u.rating, matchId: match.id })) });
+    const courtChanged = !reentry && await releasePlayers(tx, updated);
+    return { updated, updates, tournament, courtChanged };
+  });
+  await publishQueue(match.sessionId);
+  sessionEvents.publish(match.sessionId, { type: 'match.finished', match: updated });
+  if (updates.length) sessionEvents.publish(match.sessionId, { type: 'rating.changed', changes: updates.map(u => ({ userId: u.id, change: u.change, rating: u.rating })) });
+  if (tournament) sessionEvents.publish(match.sessionId, { type: 'tournament.updated', tournamentId: tournament.id });
+  if (courtChanged) await publishSession(match.sessionId);
+
+  if (!reentry) await refillCourts(match.sessionId);
+  return updated;
+}
+
+// Players report a result for the other team to confirm; an organizer's report is final.
+app.post('/api/match/:matchId/finish', authMiddleware, requireRole(Role.ADMIN, Role.ORGANIZER, Role.PLAYER), async (req: any, res) => {
+  const parsed = resultSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const result = readResult(parsed.data);
+  if ('error' in result) return res.status(400).json({ error: result.error });
+  const { matchId } = req.params as any;
+  const match = await prisma.match.findUnique({ where: { id: matchId } });
+  if (!match) return res.status(404).json({ error: 'Match not found' });
+  if (!isOrganizer(req.userRole) && !playedIn(match, req.userId)) return res.status(403).json({ error: 'Only players in this match or an organizer can report its result' });
+  checkVersion(match, parsed.data.version);
+  if (match.status !== MatchStatus.ONGOING) return res.status(409).json({ error: `Cannot report a result for a ${match.status} match` });
+
+  if (isOrganizer(req.userRole)) {
+    const updated = await confirmResult(match, result.winnerTeam, result.scores, req.userId);
+    auditChange(res, { entity: 'Match', entityId: match.id, before: flatRow(match), after: flatRow(updated) });
+    return res.json(updated);
+  }
+
+  const team = teamOf(match, req.userId);
+  if (match.resultStatus === ResultStatus.DISPUTED) {
+    return res.status(409).json({ error: 'The result is disputed; an organizer has to resolve it' });
+  }
+  if (match.resultStatus && match.reportedTeam !== team) {
+    return res.status(409).json({ error: 'The other team already reported a result; confirm or dispute it' });
+  }
+  const updated = await prisma.$transaction(tx => updateMatch(tx, match, {
+    winnerTeam: result.winnerTeam,
+    scores: result.scores ? formatScores(result.scores) : null,
+    resultStatus: ResultStatus.PENDING,
+    reportedById: req.userId,
+    reportedTeam: team,
+    disputeReason: null,
+  }));
+  sessionEvents.publish(match.sessionId, { type: 'match.result', match: updated });
+  auditChange(res, { entity: 'Match', entityId: match.id, before: flatRow(match), after: flatRow(updated) });
+  res.json(updated);
+});
+
+app.post('/api/match/:matchId/confirm', authMiddleware, requireRole(Role.ADMIN, Role.ORGANIZER, Role.PLAYER), async (req: any, res) => {
+  const parsed = versionSchema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const { matchId } = req.params as any;
+  const match = await prisma.match.findUnique({ where: { id: matchId } });
+  if (!match) return res.status(404).json({ error: 'Match not found' });
+  checkVersion(match, parsed.data.version);
+  if (match.resultStatus !== ResultStatus.PENDING || !match.winnerTeam) return res.status(409).json({ error: 'No pending result to confirm' });
+  if (!isOrganizer(req.userRole)) {
+    const team = teamOf(match, req.userId);
+    if (!team) return res.status(403).json({ error: 'Only players in this match or an organizer can confirm its result' });
+    if (team === match.reportedTeam) return res.status(403).json({ error: 'The result must be confirmed by the other team' });
+  }
+  const updated = await confirmResult(match, match.winnerTeam, match.scores ? parseScores(match.scores) : null, req.userId);
+  auditChange(res, { entity: 'Match', entityId: match.id, before: flatRow(match), after: flatRow(updated) });
+  res.json(updated);
+});
+
+app.post('/api/match/:matchId/dispute', authMiddleware, requireRole(Role.ADMIN, Role.ORGANIZER, Role.PLAYER), async (req: any, res) => {
+  const schema = versionSchema.extend({ reason: z.string().max(500).optional() });
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const { matchId } = req.params as any;
+  const match = await prisma.match.findUnique({ where: { id: matchId } });
+  if (!match) return res.status(404).json({ error: 'Match not found' });
+  checkVersion(match, parsed.data.version);
+  if (match.resultStatus !== ResultStatus.PENDING) return res.status(409).json({ error: 'No pending result to dispute' });
+  const team = teamOf(match, req.userId);
+  if (!team || team === match.reportedTeam) return res.status(403).json({ error: 'Only the other team can dispute this result' });
+  const updated = await prisma.$transaction(tx => updateMatch(tx, match, {
+    resultStatus: ResultStatus.DISPUTED,
+    disputedById: req.userId,
+    disputeReason: parsed.data.reason ?? null,
+  }));
+  sessionEvents.publish(match.sessionId, { type: 'match.result', match: updated });
+  auditChange(res, { entity: 'Match', entityId: match.id, before: flatRow(match), after: flatRow(updated) });
+  res.json(updated);
+});
+
+app.post('/api/match/:matchId/resolve', authMiddleware, requireOrganizer, async (req: any, res) => {
+  const parsed = resultSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const result = readResult(parsed.data);
+  if ('error' in result) return res.status(400).json({ error: result.error });
+  const { matchId } = req.params as any;
+  const match = await prisma.match.findUnique({ where: { id: matchId } });
+  if (!match) return res.status(404).json({ error: 'Match not found' });
+  checkVersion(match, parsed.data.version);
+  if (match.resultStatus !== ResultStatus.DISPUTED && match.resultStatus !== ResultStatus.REENTRY) return res.status(409).json({ error: 'Match is not disputed' });
+  const updated = await confirmResult(match, result.winnerTeam, result.scores, req.userId);
+  auditChange(res, { entity: 'Match', entityId: match.id, before: flatRow(match), after: flatRow(updated) });
+  res.json(updated);
+});
+
+// Takes back a confirmed result: every player's rating moves back by exactly the change
+// logged for this match and the match waits for its result to be entered again through
+// resolve. Rating deviation and volatility are left as they are. Tournament results
+// cannot be undone because the draw has already moved on.
+app.post('/api/match/:matchId/undo-result', authMiddleware, requireOrganizer, async (req: any, res) => {
+  const parsed = versionSchema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const { matchId } = req.params as any;
+  const existing = await prisma.match.findUnique({ where: { id: matchId } });
+  if (!existing) return res.status(404).json({ error: 'Match not found' });
+  checkVersion(existing, parsed.data.version);
+  if (existing.status !== MatchStatus.FINISHED || existing.resultStatus !== ResultStatus.CONFIRMED) return res.status(409).json({ error: 'Only a confirmed result can be undone' });
+  if (existing.tournamentId) return res.status(409).json({ error: 'Tournament results cannot be undone' });
+  const { match, history, changes } = await prisma.$transaction(async tx => {
+    const history = await tx.ratingHistory.findMany({ where: { matchId } });
+    const changes = [];
+    for (const h of history) {
+      const user = await tx.user.update({ where: { id: h.userId }, data: { rating: { decrement: h.change }, ratedMatches: { decrement: 1 } } });
+      changes.push({ userId: h.userId, change: -h.change, rating: user.rating });
+    }
+    await tx.ratingHistory.deleteMany({ where: { matchId } });
+    const match = await updateMatch(tx, existing, {
+      winnerTeam: null,
+      scores: null,
+      resultStatus: ResultStatus.REENTRY,
+      confirmedById: null,
+      reportedById: null,
+      reportedTeam: null,
+      disputedById: null,
+      disputeReason: null,
+    });
+    return { match, history, changes };
+  });
+  auditChange(res, { entity: 'Match', entityId: match.id, before: { match: flatRow(existing), ratingHistory: history }, after: { match: flatRow(match), reverted: changes } });
+  sessionEvents.publish(match.sessionId, { type: 'match.updated', match });
+  if (changes.length) sessionEvents.publish(match.sessionId, { type: 'rating.changed', changes });
+  res.json(match);
+});
+
+app.get('/api/matches/disputed', authMiddleware, requireOrganizer, async (req, res) => {
+  const matches = await prisma.match.findMany({ where: { resultStatus: ResultStatus.DISPUTED }, include: playerInclude, orderBy: { updatedAt: 'asc' } });
+  res.json(matches);
+});
+
+const tournamentInclude = {
+  session: { include: { courtList: { orderBy: { number: 'asc' } } } },
+  teams: { include: { player1: { select: publicUserSelect }, player2: { select: publicUserSelect } }, orderBy: [{ seed: 'asc' }, { name: 'asc' }] },
+  fixtures: { include: { match: true }, orderBy: [{ groupNo: 'asc' }, { round: 'asc' }, { slot: 'asc' }] },
+} satisfies Prisma.TournamentInclude;
+
+// The tournament with a standings table for each round-robin group.
+async function tournamentView(tournamentId: string) {
+  const tournament = await prisma.tournament.findUnique({ where: { id: tournamentId }, include: tournamentInclude });
+  if (!tournament) return null;
+  const groups = tournament.format === TournamentFormat.ROUND_ROBIN
+    ? [...new Set(tournament.teams.map(t => t.groupNo).filter((g): g is number => g != null))].sort((a, b) => a - b).map(groupNo => ({
+      groupNo,
+      standings: standings(
+        tournament.teams.filter(t => t.groupNo === groupNo).map(t => t.id),
+        tournament.fixtures.filter(f => f.groupNo === groupNo).map(f => ({ team1Id: f.team1Id, team2Id: f.team2Id, winnerId: f.winnerId, scores: f.match?.scores ?? null })),
+      ),
+    }))
+    : [];
+  return { ...tournament, groups };
+}
+
+app.get('/api/tournaments', async (req, res) => {
+  const tournaments = await prisma.tournament.findMany({ include: { _count: { select: { teams: true } } }, orderBy: { createdAt: 'desc' }, take: 100 });
+  res.json(tournaments);
+});
+
+app.post('/api/tournaments', authMiddleware, requireOrganizer, async (req, res) => {
+  const schema = z.object({
+    name: z.string().min(1).max(100),
+    format: z.enum(TournamentFormat),
+    sessionId: z.string(),
+    groups: z.number().int().min(1).max(8).default(1),
+    countsForRating: z.boolean().default(false),
+  });
+  const parsed = schema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const session = await prisma.session.findUnique({ where: { id: parsed.data.sessionId } });
+  if (!session || session.endedAt) return res.status(400).json({ error: 'Invalid session' });
+  const tournament = await prisma.tournament.create({ data: parsed.data });
+  auditChange(res, { entity: 'Tournament', entityId: tournament.id, after: flatRow(tournament) });
+  res.json(tournament);
+});
+
+app.get('/api/tournaments/:tournamentId', async (req, res) => {
+  const { tournamentId } = req.params as any;
+  const tournament = await tournamentView(tournamentId);
+  if (!tournament) return res.status(404).json({ error: 'Tournament not found' });
+  res.json(tournament);
+});
+
+// Teams are fixed pairs. Players may enter themselves with a partner; organizers may enter anyone.
+app.post('/api/tournaments/:tournamentId/teams', authMiddleware, requireRole(Role.ADMIN, Role.ORGANIZER, Role.PLAYER), async (req: any, res) => {
+  const schema = z.object({ name: z.string().min(1).max(60).optional(), player1Id: z.string(), player2Id: z.string() });
+  const parsed = schema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const { tournamentId } = req.params as any;
+  const { player1Id, player2Id } = parsed.data;
+  const tournament = await prisma.tournament.findUnique({ where: { id: tournamentId }, include: { teams: true } });
+  if (!tournament) return res.status(404).json({ error: 'Tournament not found' });
+  if (tournament.status !== TournamentStatus.REGISTRATION) return res.status(409).json({ error: 'Registration is closed' });
+  if (!isOrganizer(req.userRole) && req.userId !== player1Id && req.userId !== player2Id) return res.status(403).json({ error: 'You can only register a team you play in' });
+  if (player1Id === player2Id) return res.status(400).json({ error: 'A team needs two different players' });
+  const players = await prisma.user.findMany({ where: { id: { in: [player1Id, player2Id] } } });
+  if (players.length !== 2) return res.status(400).json({ error: 'Unknown player' });
+  const entered = new Set(tournament.teams.flatMap(t => [t.player1Id, t.player2Id]));
+  if (entered.has(player1Id) || entered.has(player2Id)) return res.status(409).json({ error: 'Player is already in a team' });
+  const name = parsed.data.name ?? players.map(p => p.username).join(' / ');
+  const team = await prisma.tournamentTeam.create({ data: { tournamentId, name, player1Id, player2Id }, include: { player1: { select: publicUserSelect }, player2: { select: publicUserSelect } } });
+  auditChange(res, { entity: 'TournamentTeam', entityId: team.id, after: flatRow(team) });
+  res.json(team);
+});
+
+app.delete('/api/tournaments/:tournamentId/teams/:teamId', authMiddleware, requireRole(Role.ADMIN, Role.ORGANIZER, Role.PLAYER), async (req: any, res) => {
+  const { tournamentId, teamId } = req.params as any;
+  const team = await prisma.tournamentTeam.findFirst({ where: { id: teamId, tournamentId }, include: { tournament: true } });
+  if (!team) return res.status(404).json({ error: 'Team not found' });
+  if (team.tournament.status !== TournamentStatus.REGISTRATION) return res.status(409).json({ error: 'Registration is closed' });
+  if (!isOrganizer(req.userRole) && req.userId !== team.player1Id && req.userId !== team.player2Id) return res.status(403).json({ error: 'You can only withdraw your own team' });
+  await prisma.tournamentTeam.delete({ where: { id: teamId } });
+  auditChange(res, { entity: 'TournamentTeam', entityId: teamId, before: flatRow(team), after: null });
+  res.json({ ok: true });
+});
+
+// Closes registration: teams are seeded by their players' average rating, the fixtures are
+// drawn and the first ones go straight onto free courts.
+app.post('/api/tournaments/:tournamentId/start', authMiddleware, requireOrganizer, async (req, res) => {
+  const { tournamentId } = req.params as any;
+  const tournament = await prisma.tournament.findUnique({ where: { id: tournamentId }, include: { teams: { include: { player1: { select: publicUserSelect }, player2: { select: publicUserSelect } } } } });
+  if (!tournament) return res.status(404).json({ error: 'Tournament not found' });
+  if (tournament.status !== TournamentStatus.REGISTRATION) return res.status(409).json({ error: 'Tournament has already started' });
+  if (tournament.teams.length < 2) return res.status(400).json({ error: 'At least two teams are needed' });
+
+  const seeded = [...tournament.teams]
+    .sort((a, b) => (b.player1.rating + b.player2.rating) - (a.player1.rating + a.player2.rating))
+    .map(t => t.id);
+  // Every group needs at least two teams.
+  const groups = Math.min(tournament.groups, Math.floor(seeded.length / 2));
+  const roundRobin = tournament.format === TournamentFormat.ROUND_ROBIN;
+  const fixtures = roundRobin ? roundRobinFixtures(seeded, groups) : knockoutFixtures(seeded);
+  const groupOf = new Map<string, number>();
+  if (roundRobin) snakeGroups(seeded, groups).forEach((ids, g) => ids.forEach(id => groupOf.set(id, g + 1)));
+
+  const claimed = await prisma.$transaction(async tx => {
+    const { count } = await tx.tournament.updateMany({ where: { id: tournamentId, status: TournamentStatus.REGISTRATION }, data: { status: TournamentStatus.IN_PROGRESS } });
+    if (count === 0) return false;
+    for (const [i, id] of seeded.entries()) {
+      await tx.tournamentTeam.update({ where: { id }, data: { seed: i + 1, groupNo: groupOf.get(id) ?? null } });
+    }
+    await tx.tournamentFixture.createMany({ data: fixtures.map(f => ({ ...f, tournamentId })) });
+    return true;
+  });
+  if (!claimed) return res.status(409).json({ error: 'Tournament has already started' });
+  await refillCourts(tournament.sessionId);
+  sessionEvents.publish(tournament.sessionId, { type: 'tournament.updated', tournamentId });
+  const view = await tournamentView(tournamentId);
+  auditChange(res, { entity: 'Tournament', entityId: tournamentId, before: flatRow(tournament), after: flatRow(view) });
+  res.json(view);
+});
+
+app.get('/api/leaderboard', async (req, res) => {
+  const users = await prisma.user.findMany({ orderBy: { rating: 'desc' }, take: 100, select: publicUserSelect });
+  res.json(users);
+});
+
+app.get('/api/users/:userId/profile', async (req, res) => {
+  const { userId } = req.params;
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true, username: true, rating: true, ratingDeviation: true, ratedMatches: true, role: true, createdAt: true } });
+  if (!user) return res.status(404).json({ error: 'User not found' });
+  const [history, matches] = await Promise.all([
+    prisma.ratingHistory.findMany({ where: { userId }, select: { rating: true, change: true, matchId: true, createdAt: true }, orderBy: { createdAt: 'asc' } }),
+    prisma.match.findMany({
+      where: { status: MatchStatus.FINISHED, winnerTeam: { not: null }, OR: [{ p1Id: userId }, { p2Id: userId }, { p3Id: userId }, { p4Id: userId }] },
+      orderBy: [{ endedAt: 'asc' }, { createdAt: 'asc' }],
+    }),
+  ]);
+  const stats = playerStats(userId, matches);
+
+  const ids = new Set([...stats.partners.best, ...stats.partners.worst, ...stats.opponents.best, ...stats.opponents.worst].map(h => h.userId));
+  const names = new Map((await prisma.user.findMany({ where: { id: { in: [...ids] } }, select: { id: true, username: true } })).map(u => [u.id, u.username]));
+  const withName = (list: HeadToHead[]) => list.map(h => ({ ...h, username: names.get(h.userId) }));
+  const sessions = new Map((await prisma.session.findMany({ where: { id: { in: stats.sessions.map(x => x.sessionId) } }, select: { id: true, startTime: true } })).map(x => [x.id, x.startTime]));
+
+  res.json({
+    user,
+    ratingHistory: history,
+    record: stats.record,
+    streaks: stats.streaks,
+    sessions: stats.sessions.map(x => ({ ...x, startTime: sessions.get(x.sessionId) })),
+    partners: { best: withName(stats.partners.best), worst: withName(stats.partners.worst) },
+    opponents: { best: withName(stats.opponents.best), worst: withName(stats.opponents.worst) },
+  });
+});
+
+app.get('/api/users/:userId/attendance', authMiddleware, requireOrganizer, async (req, res) => {
+  const { userId } = req.params as any;
+  const [attendance, noShows] = await Promise.all([
+    prisma.attendance.findMany({ where: { userId }, include: { session: { include: { venue: true } } }, orderBy: { checkedInAt: 'desc' }, take: 100 }),
+    prisma.noShow.findMany({ where: { userId }, include: { session: { include: { venue: true } } }, orderBy: { createdAt: 'desc' }, take: 100 }),
+  ]);
+  res.json({ attendance, noShows, noShowCount: await prisma.noShow.count({ where: { userId } }) });
+});
+
+app.get('/api/admin/users', authMiddleware, requireAdmin, async (req, res) => {
+  const users = await prisma.user.findMany({ orderBy: { username: 'asc' }, select: accountUserSelect });
+  res.json(users);
+});
+
+app.post('/api/admin/users/:userId/role', authMiddleware, requireAdmin, async (req: any, res) => {
+  const schema = z.object({ role: z.enum(Role) });
+  const parsed = schema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const { role } = parsed.data;
+  const { userId } = req.params;
+  const target = await prisma.user.findUnique({ where: { id: userId } });
+  if (!target) return res.status(404).json({ error: 'User not found' });
+  if (target.role === Role.ADMIN && role !== Role.ADMIN) {
+    const admins = await prisma.user.count({ where: { role: Role.ADMIN } });
+    if (admins <= 1) return res.status(400).json({ error: 'Cannot demote the last admin' });
+  }
+  const user = await prisma.user.update({ where: { id: userId }, data: { role }, select: accountUserSelect });
+  auditChange(res, { entity: 'User', entityId: userId, before: { role: target.role }, after: { role: user.role } });
+  res.json(user);
+});
+
+// Newest first. Page with ?cursor=<id of the last entry seen>.
+app.get('/api/admin/audit', authMiddleware, requireAdmin, async (req, res) => {
+  const parsed = auditQuerySchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const { actorId, entity, entityId, action, from, to, failed, cursor, limit } = parsed.data;
+  const entries = await prisma.auditLog.findMany({
+    where: {
+      actorId,
+      entity,
+      entityId,
+      action: action ? { contains: action } : undefined,
+      createdAt: { gte: from, lte: to },
+      status: failed === 'true' ? { gte: 400 } : failed === 'false' ? { lt: 400 } : undefined,
+    },
+    include: { actor: { select: { id: true, username: true } } },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: limit + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+  });
+  const page = entries.slice(0, limit);
+  res.json({
+    entries: page.map(e => ({ ...e, request: e.request && JSON.parse(e.request), before: e.before && JSON.parse(e.before), after: e.after && JSON.parse(e.after) })),
+    nextCursor: entries.length > limit ? page[page.length - 1].id : null,
+  });
+});
+
+app.post('/api/admin/ratings/recalculate', authMiddleware, requireAdmin, async (req, res) => {
+  const schema = z.object({
+    system: z.enum(['elo', 'glicko2']).optional(),
+    k: z.number().positive().optional(),
+    provisionalK: z.number().positive().optional(),
+    provisionalGames: z.number().int().min(0).optional(),
+    tau: z.number().positive().optional(),
+    dryRun: z.boolean().default(false),
+  });
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const { dryRun, ...overrides } = parsed.data;
+  const result = await recalculateRatings({ ...ratingConfig, ...overrides }, dryRun);
+  auditChange(res, { entity: 'User', entityId: null, after: { dryRun, config: { ...ratingConfig, ...overrides }, matches: result.matches } });
+  res.json({ dryRun, ...result });
+});
+
+function sendCsv(res: any, filename: string, rows: object[]) {
+  res.setHeader('Content-Type', 'text/csv');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  const csvStream = csvFormat({ headers: true });
+  csvStream.pipe(res);
+  rows.forEach(r => csvStream.write(r));
+  csvStream.end();
+}
+
+// Ratings are current; games and wins count finished matches inside the filter. With any
+// filter set only players who played inside it are listed.
+app.get('/api/export/leaderboard.:format', authMiddleware, requireOrganizer, async (req, res) => {
+  const { format } = req.params as any;
+  if (format !== 'csv' && format !== 'json') return res.status(404).json({ error: 'Unknown format' });
+  const parsed = exportFilterSchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const filter = parsed.data;
+  const matches = await prisma.match.findMany({ where: { ...matchFilter(filter), status: MatchStatus.FINISHED, winnerTeam: { not: null } }, select: { p1Id: true, p2Id: true, p3Id: true, p4Id: true, winnerTeam: true } });
+  const tally = new Map<string, { played: number; wins: number }>();
+  for (const m of matches) {
+    [m.p1Id, m.p2Id, m.p3Id, m.p4Id].forEach((id, i) => {
+      const t = tally.get(id) ?? { played: 0, wins: 0 };
+      t.played++;
+      if (m.winnerTeam === (i < 2 ? 1 : 2)) t.wins++;
+      tally.set(id, t);
+    });
+  }
+  const filtered = Object.values(filter).some(v => v !== undefined);
+  const users = await prisma.user.findMany({ where: filtered ? { id: filter.playerId ?? { in: [...tally.keys()] } } : {}, orderBy: { rating: 'desc' }, select: { id: true, username: true, rating: true } });
+  const rows = users.map((u, i) => ({ rank: i + 1, username: u.username, rating: Math.round(u.rating), played: tally.get(u.id)?.played ?? 0, wins: tally.get(u.id)?.wins ?? 0 }));
+  if (format === 'json') return res.json(rows);
+  sendCsv(res, 'leaderboard.csv', rows);
+});
+
+app.get('/api/export/matches.:format', authMiddleware, requireOrganizer, async (req, res) => {
+  const { format } = req.params as any;
+  if (!['csv', 'json', 'ics', 'pdf'].includes(format)) return res.status(404).json({ error: 'Unknown format' });
+  const parsed = exportFilterSchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const matches = await prisma.match.findMany({
+    where: matchFilter(parsed.data),
+    include: { ...playerInclude, session: { select: { venue: { select: { name: true } } } } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  if (format === 'json') return res.json(matches.map(matchRow));
+  if (format === 'csv') return sendCsv(res, 'matches.csv', matches.map(matchRow));
+  if (format === 'ics') {
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'attachment; filename="matches.ics"');
+    return res.send(toICalendar('Badminton matches', matches.map(m => matchEvent(m, m.session.venue?.name))));
+  }
+  const doc = new PDFDocument({ margin: 40 });
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', 'attachment; filename="matches.pdf"');
+  doc.pipe(res as any);
+  doc.fontSize(18).text('Match History', { underline: true });
+  doc.moveDown();
+  drawTable(doc, ['Date', 'Court', 'Team 1', 'Team 2', 'Status', 'Scores', 'Winner'], [0.16, 0.07, 0.22, 0.22, 0.11, 0.13, 0.09], matches.map(matchRow).map(r => [
+    r.date, r.court, r.team1, r.team2, r.status, r.scores, r.winnerTeam ? `Team ${r.winnerTeam}` : '',
+  ]));
+  doc.end();
+});
+
+app.get('/api/export/sessions.ics', authMiddleware, requireOrganizer, async (req, res) => {
+  const parsed = exportFilterSchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  const { from, to } = parsed.data;
+  const sessions = await prisma.session.findMany({
+    where: { startTime: from || to ? { gte: from, lte: to } : undefined },
+    include: { venue: true },
+    orderBy: { startTime: 'asc' },
+  });
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Content-Disposition', 'attachment; filename="sessions.ics"');
+  res.send(toICalendar('Badminton sessions', sessions.map(x => ({
+    uid: `session-${x.id}`,
+    start: x.startTime,
+    end: x.endedAt ?? x.endTime,
+    summary: `Badminton session${x.venue ? ` at ${x.venue.name}` : ''}`,
+    description: `${x.courts} courts`,
+    location: x.venue?.name,
+  }))));
+});
+
+app.get('/api/export/session/:sessionId/report.pdf', authMiddleware, requireOrganizer, async (req, res) => {
+  const { sessionId } = req.params as any;
+  const session = await prisma.session.findUnique({ where: { id: sessionId }, include: { venue: true, courtList: { orderBy: { number: 'asc' } } } });
+  if (!session) return res.status(404).json({ error: 'Session not found' });
+  const matches = await prisma.match.findMany({ where: { sessionId }, include: playerInclude, orderBy: { createdAt: 'asc' } });
+  const history = await prisma.ratingHistory.findMany({ where: { matchId: { in: matches.map(m => m.id) } }, include: { user: { select: { username: true } } }, orderBy: { createdAt: 'asc' } });
+
+  const ratings = new Map<string, { username: string; before: number; change: number; after: number }>();
+  for (const h of history) {
+    const r = ratings.get(h.userId) ?? { username: h.user.username, before: h.rating - h.change, change: 0, after: h.rating };
+    r.change += h.change;
+    r.after = h.rating;
+    ratings.set(h.userId, r);
+  }
+  const attendance = new Map<string, { username: string; games: number; wins: number; first: Date; last: Date }>();
+  for (const m of matches.filter(m => m.status !== MatchStatus.CANCELLED)) {
+    const at = m.startedAt ?? m.createdAt;
+    [m.p1, m.p2, m.p3, m.p4].forEach((p, i) => {
+      const a = attendance.get(p.id) ?? { username: p.username, games: 0, wins: 0, first: at, last: at };
+      a.games++;
+      if (m.winnerTeam === (i < 2 ? 1 : 2)) a.wins++;
+      a.last = at;
+      attendance.set(p.id, a);
+    });
+  }
+
+  const courts = session.courtList.map(c => ({ number: c.number, name: c.name }));
+  // Courts removed during the session still had matches on them.
+  for (const court of new Set(matches.map(m => m.court))) {
+    if (!courts.some(c => c.number === court)) courts.push({ number: court, name: `Court ${court}` });
+  }
+  const doc = new PDFDocument({ margin: 40 });
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="session-${dayjs(session.startTime).format('YYYY-MM-DD')}.pdf"`);
+  doc.pipe(res as any);
+  writeSessionReport(doc, {
+    title: `${session.venue?.name ?? 'Session'} · ${dayjs(session.startTime).format('ddd D MMM YYYY HH:mm')}–${dayjs(session.endedAt ?? session.endTime).format('HH:mm')}`,
+    courts: courts.sort((a, b) => a.number - b.number),
+    matches,
+    ratings: [...ratings.values()].sort((a, b) => b.change - a.change),
+    attendance: [...attendance.values()].sort((a, b) => a.username.localeCompare(b.username)),
+  });
+  doc.end();
+});
+
+// Registers club members from a CSV with columns email, username and optionally rating,
+// role and password. Every row is validated first; nothing is written on a dry run or
+// when any row has errors.
+app.post('/api/admin/members/import', authMiddleware, requireAdmin, async (req, res) => {
+  const schema = z.object({ csv: z.string().min(1).max(1_000_000), dryRun: z.boolean().default(true) });
+  const parsed = schema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  let raw: Record<string, string>[];
+  try {
+    raw = await readCsv(parsed.data.csv);
+  } catch (e: any) {
+    return res.status(400).json({ error: `Could not read CSV: ${e.message}` });
+  }
+  const users = await prisma.user.findMany({ select: { email: true, username: true } });
+  const rows = validateMembers(raw, { emails: new Set(users.map(u => u.email.toLowerCase())), usernames: new Set(users.map(u => u.username)) });
+  const invalid = rows.filter(r => r.errors.length).length;
+  const report = {
+    dryRun: parsed.data.dryRun,
+    total: rows.length,
+    valid: rows.length - invalid,
+    invalid,
+    created: 0,
+    rows: rows.map(({ password, ...r }) => r),
+  };
+  if (parsed.data.dryRun) return res.json(report);
+  if (invalid) return res.status(400).json({ error: 'Fix the rows with errors and try again', ...report });
+
+  // Without a password column the account gets an unguessable one until the member sets their own.
+  const data = await Promise.all(rows.map(async r => ({
+    email: r.email,
+    username: r.username,
+    rating: r.rating,
+    role: r.role === 'ORGANIZER' ? Role.ORGANIZER : Role.PLAYER,
+    passwordHash: await bcrypt.hash(r.password ?? randomBytes(24).toString('base64url'), 10),
+  })));
+  const { count } = await prisma.user.createMany({ data });
+  auditChange(res, { entity: 'User', entityId: null, after: { created: count, usernames: data.map(d => d.username) } });
+  res.json({ ...report, created: count });
+});
+
+app.get('/api/health', (req, res) => res.json({ ok: true }));
+
+app.use((err: any, req: any, res: any, next: any) => {
+  if (err instanceof ConflictError) return res.status(409).json({ error: err.message });
+  next(err);
+});
@@ -0,0 +1,40 @@
+// Check-in codes and the no-show rule for scheduled matches.
+import { randomInt } from 'node:crypto';
+
+// No 0/O or 1/I so codes can be read off a screen across the hall.
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export function newCheckInCode(length = 6) {
+  return Array.from({ length }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('');
+}
+
+export const SLOTS = [
+  { player: 'p1Id', present: 'p1PresentAt' },
+  { player: 'p2Id', present: 'p2PresentAt' },
+  { player: 'p3Id', present: 'p3PresentAt' },
+  { player: 'p4Id', present: 'p4PresentAt' },
+] as const;
+
+export type Slot = (typeof SLOTS)[number];
+
+type Lineup = {
+  p1Id: string; p2Id: string; p3Id: string; p4Id: string;
+  p1PresentAt: Date | null; p2PresentAt: Date | null; p3PresentAt: Date | null; p4PresentAt: Date | null;
+  createdAt: Date;
+  lineupChangedAt: Date | null;
+};
+
+export function slotOf(match: Lineup, userId: string) {
+  return SLOTS.find(s => match[s.player] === userId) ?? null;
+}
+
+// Players who have not confirmed they are at the court.
+export function absentSlots(match: Lineup) {
+  return SLOTS.filter(s => !match[s.present]);
+}
+
+// The window runs from when the match was scheduled, or from the last replacement.
+export function noShowDue(match: Lineup, minutes: number, now = new Date()) {
+  const since = match.lineupChangedAt ?? match.createdAt;
+  return now.getTime() - since.getTime() >= minutes * 60_000;
+}
@@ -0,0 +1,40 @@
+// Audit trail helpers. The app writes one AuditLog row per mutating request once the
+// response has gone out; routes that change a row describe it with auditChange.
+import { z } from 'zod';
+
+export type AuditChange = { entity: string; entityId: string | null; before?: unknown; after?: unknown };
+
+const SECRET_KEYS = /password|token|code|csv/i;
+
+// Drops secrets and bulky uploads from a request body or row snapshot before it is stored.
+export function redact(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redact);
+  if (!value || typeof value !== 'object' || value instanceof Date) return value;
+  return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, SECRET_KEYS.test(k) ? '[redacted]' : redact(v)]));
+}
+
+// Keeps a row's own columns and leaves out included relations such as a match's players.
+export function flatRow(row: object | null | undefined) {
+  if (!row) return null;
+  return Object.fromEntries(Object.entries(row).filter(([, v]) => v === null || typeof v !== 'object' || v instanceof Date));
+}
+
+export function auditChange(res: { locals: Record<string, any> }, change: AuditChange) {
+  res.locals.audit = change;
+}
+
+export function toJson(value: unknown) {
+  return value === undefined || value === null ? null : JSON.stringify(value);
+}
+
+export const auditQuerySchema = z.object({
+  actorId: z.string().optional(),
+  entity: z.string().optional(),
+  entityId: z.string().optional(),
+  action: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  failed: z.enum(['true', 'false']).optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
@@ -0,0 +1,35 @@
+// Token handling: short-lived JWT access tokens plus opaque refresh tokens that are stored
+// hashed in the database and replaced on every use.
+import jwt from 'jsonwebtoken';
+import { createHash, randomBytes } from 'node:crypto';
+
+const JWT_SECRET = process.env.JWT_SECRET;
+if (!JWT_SECRET) throw new Error('JWT_SECRET must be set');
+
+export const ACCESS_TOKEN_TTL = '15m';
+export const REFRESH_TOKEN_DAYS = 30;
+export const RESET_TOKEN_MINUTES = 60;
+
+export function signAccessToken(userId: string) {
+  return jwt.sign({ sub: userId }, JWT_SECRET!, { expiresIn: ACCESS_TOKEN_TTL });
+}
+
+// Returns the user id, or null when the token is missing, expired or forged.
+export function verifyAccessToken(token: string) {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET!) as jwt.JwtPayload;
+    return typeof payload.sub === 'string' ? payload.sub : null;
+  } catch {
+    return null;
+  }
+}
+
+// Only the hash is stored, so a leaked database cannot be used to sign in.
+export function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function newOpaqueToken() {
+  const token = randomBytes(32).toString('base64url');
+  return { token, hash: hashToken(token) };
+}
@@ -0,0 +1,33 @@
+// Response shapes. User rows carry the password hash and email address, so users only
+// leave the API through these selects and mappers.
+import { Prisma } from '@prisma/client';
+
+export const publicUserSelect = {
+  id: true,
+  username: true,
+  rating: true,
+  ratingDeviation: true,
+  volatility: true,
+  ratedMatches: true,
+  role: true,
+  createdAt: true,
+} satisfies Prisma.UserSelect;
+
+export type PublicUser = Prisma.UserGetPayload<{ select: typeof publicUserSelect }>;
+
+// What a signed-in user sees about themselves, and what admins see on the member list.
+export const accountUserSelect = { ...publicUserSelect, email: true } satisfies Prisma.UserSelect;
+
+export type AccountUser = Prisma.UserGetPayload<{ select: typeof accountUserSelect }>;
+
+export const playerInclude = {
+  p1: { select: publicUserSelect },
+  p2: { select: publicUserSelect },
+  p3: { select: publicUserSelect },
+  p4: { select: publicUserSelect },
+} satisfies Prisma.MatchInclude;
+
+// Copies only the selected fields, for user rows that were loaded in full.
+export function accountUser(u: AccountUser): AccountUser {
+  return Object.fromEntries(Object.keys(accountUserSelect).map(k => [k, u[k as keyof AccountUser]])) as AccountUser;
+}
@@ -0,0 +1,52 @@
+// Wait-time estimates: simulates the queue onto courts using the session's typical match length.
+
+// Used until a session (and the club as a whole) has finished matches to learn from.
+export const DEFAULT_MATCH_MINUTES = 15;
+
+export function median(values: number[]) {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export function durationMinutes(m: { startedAt: Date | null; endedAt: Date | null }) {
+  if (!m.startedAt || !m.endedAt) return null;
+  return (m.endedAt.getTime() - m.startedAt.getTime()) / 60_000;
+}
+
+export type CourtMatch = { id: string; court: number; status: 'SCHEDULED' | 'ONGOING'; startedAt: Date | null };
+export type CourtOccupancy = { court: number; matchId: string | null; status: string | null; elapsedMinutes: number | null; overdue: boolean; freeInMinutes: number };
+
+/**
+ * `openCourts` are the court numbers in play, `active` the SCHEDULED/ONGOING matches and
+ * `queue` the waiting player ids in queue order. Each group of four takes the next court
+ * to come free, which is how generateUpcomingMatches fills them.
+ */
+export function estimateWaits(openCourts: number[], active: CourtMatch[], queue: string[], typicalMinutes: number, now = new Date()) {
+  const courts: CourtOccupancy[] = openCourts.map(court => {
+    const match = active.find(m => m.court === court);
+    if (!match) return { court, matchId: null, status: null, elapsedMinutes: null, overdue: false, freeInMinutes: 0 };
+    if (match.status === 'SCHEDULED' || !match.startedAt) {
+      return { court, matchId: match.id, status: match.status, elapsedMinutes: null, overdue: false, freeInMinutes: typicalMinutes };
+    }
+    const elapsed = (now.getTime() - match.startedAt.getTime()) / 60_000;
+    return { court, matchId: match.id, status: match.status, elapsedMinutes: elapsed, overdue: elapsed > typicalMinutes, freeInMinutes: Math.max(0, typicalMinutes - elapsed) };
+  });
+
+  const freeAt = courts.map(c => c.freeInMinutes).sort((a, b) => a - b);
+  const players: { userId: string; etaMinutes: number | null }[] = [];
+  for (let i = 0; i < queue.length; i += 4) {
+    const group = queue.slice(i, i + 4);
+    // An incomplete last group cannot be scheduled until more players join.
+    if (group.length < 4 || freeAt.length === 0) {
+      group.forEach(userId => players.push({ userId, etaMinutes: null }));
+      continue;
+    }
+    const start = freeAt.shift()!;
+    group.forEach(userId => players.push({ userId, etaMinutes: start }));
+    freeAt.push(start + typicalMinutes);
+    freeAt.sort((a, b) => a - b);
+  }
+  return { courts, players };
+}
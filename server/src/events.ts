@@ -0,0 +1,61 @@
+// Per-session push channel over Server-Sent Events.
+import type { Response } from 'express';
+
+export type SessionEvent =
+  | { type: 'queue.changed'; queue: unknown[] }
+  | { type: 'match.scheduled'; matches: unknown[] }
+  | { type: 'match.updated'; match: unknown }
+  | { type: 'match.started'; match: unknown }
+  | { type: 'match.result'; match: unknown }
+  | { type: 'match.finished'; match: unknown }
+  | { type: 'match.cancelled'; match: unknown }
+  | { type: 'match.voided'; match: unknown }
+  | { type: 'rating.changed'; changes: { userId: string; rating: number; change: number }[] }
+  | { type: 'tournament.updated'; tournamentId: string }
+  | { type: 'session.updated'; session: unknown }
+  | { type: 'session.ended'; sessionId: string };
+
+const HEARTBEAT_MS = 25_000;
+
+class SessionEventHub {
+  private clients = new Map<string, Set<Response>>();
+  private nextId = new Map<string, number>();
+
+  subscribe(sessionId: string, res: Response) {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+    // Tell EventSource how long to wait before reconnecting after a drop.
+    res.write('retry: 3000\n\n');
+
+    let set = this.clients.get(sessionId);
+    if (!set) { set = new Set(); this.clients.set(sessionId, set); }
+    set.add(res);
+
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      set!.delete(res);
+      if (set!.size === 0) this.clients.delete(sessionId);
+    });
+  }
+
+  publish(sessionId: string, event: SessionEvent) {
+    const set = this.clients.get(sessionId);
+    if (!set || set.size === 0) return;
+    const id = (this.nextId.get(sessionId) ?? 0) + 1;
+    this.nextId.set(sessionId, id);
+    const frame = `id: ${id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+    set.forEach(res => res.write(frame));
+  }
+
+  // Ends every open stream for the session, e.g. once it has been closed.
+  close(sessionId: string) {
+    this.clients.get(sessionId)?.forEach(res => res.end());
+    this.clients.delete(sessionId);
+    this.nextId.delete(sessionId);
+  }
+}
+
+export const sessionEvents = new SessionEventHub();
@@ -0,0 +1,186 @@
+// Report building for the export endpoints: match filters, iCalendar output and PDF tables.
+import { Prisma } from '@prisma/client';
+import dayjs from 'dayjs';
+import { z } from 'zod';
+import { DEFAULT_MATCH_MINUTES } from './estimates.js';
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const exportFilterSchema = z.object({
+  sessionId: z.string().optional(),
+  playerId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  // A bare date such as 2026-10-18 includes that whole day, up to its last millisecond.
+  to: z.preprocess(
+    v => typeof v === 'string' && DATE_ONLY.test(v) ? new Date(Date.parse(v) + DAY_MS - 1) : v,
+    z.coerce.date().optional(),
+  ),
+});
+export type ExportFilter = z.infer<typeof exportFilterSchema>;
+
+// Dates filter on when a match was created, which is when it was put on court.
+export function matchFilter(f: ExportFilter): Prisma.MatchWhereInput {
+  return {
+    sessionId: f.sessionId,
+    createdAt: f.from || f.to ? { gte: f.from, lte: f.to } : undefined,
+    OR: f.playerId ? [{ p1Id: f.playerId }, { p2Id: f.playerId }, { p3Id: f.playerId }, { p4Id: f.playerId }] : undefined,
+  };
+}
+
+type Named = { username: string };
+export type ExportMatch = {
+  id: string;
+  sessionId: string;
+  court: number;
+  status: string;
+  winnerTeam: number | null;
+  scores: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  endedAt: Date | null;
+  p1: Named;
+  p2: Named;
+  p3: Named;
+  p4: Named;
+};
+
+// Flat rows shared by the CSV and JSON match exports.
+export function matchRow(m: ExportMatch) {
+  return {
+    id: m.id,
+    sessionId: m.sessionId,
+    date: dayjs(m.createdAt).format('YYYY-MM-DD HH:mm'),
+    court: m.court,
+    team1: `${m.p1.username} & ${m.p2.username}`,
+    team2: `${m.p3.username} & ${m.p4.username}`,
+    status: m.status,
+    winnerTeam: m.winnerTeam ?? '',
+    scores: m.scores ?? '',
+  };
+}
+
+export type CalendarEvent = { uid: string; start: Date; end: Date; summary: string; description?: string; location?: string };
+
+function icsDate(d: Date) {
+  return d.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function icsText(text: string) {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// RFC 5545 limits lines to 75 octets; longer ones continue on a line starting with a space.
+function fold(line: string) {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += 74) parts.push(line.slice(i, i + 74));
+  return parts.join('\r\n ');
+}
+
+export function toICalendar(name: string, events: CalendarEvent[], now = new Date()) {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Badminton Scheduler//EN', 'CALSCALE:GREGORIAN', `X-WR-CALNAME:${icsText(name)}`];
+  for (const e of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${e.uid}@badminton-scheduler`,
+      `DTSTAMP:${icsDate(now)}`,
+      `DTSTART:${icsDate(e.start)}`,
+      `DTEND:${icsDate(e.end)}`,
+      `SUMMARY:${icsText(e.summary)}`,
+    );
+    if (e.description) lines.push(`DESCRIPTION:${icsText(e.description)}`);
+    if (e.location) lines.push(`LOCATION:${icsText(e.location)}`);
+    lines.push('END:VEVENT');
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
+
+export function matchEvent(m: ExportMatch, location?: string): CalendarEvent {
+  const start = m.startedAt ?? m.createdAt;
+  const end = m.endedAt ?? dayjs(start).add(DEFAULT_MATCH_MINUTES, 'minute').toDate();
+  const result = m.winnerTeam ? ` - Team ${m.winnerTeam} won${m.scores ? ` ${m.scores}` : ''}` : '';
+  return {
+    uid: `match-${m.id}`,
+    start,
+    end,
+    summary: `${m.p1.username} & ${m.p2.username} vs ${m.p3.username} & ${m.p4.username}`,
+    description: `Court ${m.court} - ${m.status}${result}`,
+    location,
+  };
+}
+
+/**
+ * Draws a simple table with a bold header row, starting a new page (and repeating the
+ * header) when the rows run past the bottom margin. `widths` are fractions of the page width.
+ */
+export function drawTable(doc: PDFKit.PDFDocument, headers: string[], widths: number[], rows: (string | number)[][]) {
+  const left = doc.page.margins.left;
+  const width = doc.page.width - left - doc.page.margins.right;
+  const cols = widths.map(w => w * width);
+  const rowHeight = 16;
+  const drawRow = (cells: (string | number)[], bold: boolean) => {
+    const y = doc.y;
+    let x = left;
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+    cells.forEach((cell, i) => {
+      doc.text(String(cell), x + 2, y + 3, { width: cols[i] - 4, height: rowHeight - 3, ellipsis: true, lineBreak: false });
+      x += cols[i];
+    });
+    doc.moveTo(left, y + rowHeight).lineTo(left + width, y + rowHeight).strokeColor('#dddddd').stroke();
+    doc.x = left;
+    doc.y = y + rowHeight;
+  };
+  const full = () => doc.y + rowHeight > doc.page.height - doc.page.margins.bottom;
+  if (full()) doc.addPage();
+  drawRow(headers, true);
+  for (const row of rows) {
+    if (full()) {
+      doc.addPage();
+      drawRow(headers, true);
+    }
+    drawRow(row, false);
+  }
+  doc.font('Helvetica').moveDown();
+}
+
+export type SessionReport = {
+  title: string;
+  courts: { number: number; name: string }[];
+  matches: ExportMatch[];
+  // Summed from RatingHistory over the session's matches.
+  ratings: { username: string; before: number; change: number; after: number }[];
+  attendance: { username: string; games: number; wins: number; first: Date; last: Date }[];
+};
+
+const STATUS_LABEL: Record<string, string> = { SCHEDULED: 'Scheduled', ONGOING: 'Playing', FINISHED: 'Finished', CANCELLED: 'Cancelled', VOID: 'Void' };
+
+export function writeSessionReport(doc: PDFKit.PDFDocument, report: SessionReport) {
+  doc.fontSize(18).text(report.title, { underline: true });
+  doc.fontSize(10).text(`${report.matches.length} matches · ${report.attendance.length} players`);
+  doc.moveDown();
+
+  for (const court of report.courts) {
+    const matches = report.matches.filter(m => m.court === court.number);
+    if (matches.length === 0) continue;
+    doc.fontSize(13).font('Helvetica-Bold').text(court.name).font('Helvetica').moveDown(0.3);
+    drawTable(doc, ['Time', 'Team 1', 'Team 2', 'Status', 'Scores', 'Winner'], [0.1, 0.26, 0.26, 0.12, 0.16, 0.1], matches.map(m => [
+      dayjs(m.startedAt ?? m.createdAt).format('HH:mm'),
+      `${m.p1.username} & ${m.p2.username}`,
+      `${m.p3.username} & ${m.p4.username}`,
+      STATUS_LABEL[m.status] ?? m.status,
+      m.scores ?? '',
+      m.winnerTeam ? `Team ${m.winnerTeam}` : '',
+    ]));
+  }
+
+  doc.fontSize(13).font('Helvetica-Bold').text('Rating changes').font('Helvetica').moveDown(0.3);
+  drawTable(doc, ['Player', 'Before', 'Change', 'After'], [0.4, 0.2, 0.2, 0.2], report.ratings.map(r => [
+    r.username, Math.round(r.before), `${r.change >= 0 ? '+' : ''}${r.change.toFixed(1)}`, Math.round(r.after),
+  ]));
+
+  doc.fontSize(13).font('Helvetica-Bold').text('Attendance').font('Helvetica').moveDown(0.3);
+  drawTable(doc, ['Player', 'Games', 'Won', 'First match', 'Last match'], [0.36, 0.14, 0.14, 0.18, 0.18], report.attendance.map(a => [
+    a.username, a.games, a.wins, dayjs(a.first).format('HH:mm'), dayjs(a.last).format('HH:mm'),
+  ]));
+}
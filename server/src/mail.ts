@@ -0,0 +1,36 @@
+// Outgoing mail behind a small transport interface so a real provider can be plugged in
+// without touching the routes. Development uses the console or a directory of .eml files.
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+export type MailMessage = { to: string; subject: string; text: string };
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage) {
+    console.log(`--- mail to ${message.to}: ${message.subject}\n${message.text}\n---`);
+  }
+}
+
+export class FileTransport implements MailTransport {
+  constructor(private dir: string) {}
+
+  async send(message: MailMessage) {
+    await mkdir(this.dir, { recursive: true });
+    const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^\w.@-]/g, '_')}.eml`;
+    const body = `To: ${message.to}\nSubject: ${message.subject}\nDate: ${new Date().toUTCString()}\n\n${message.text}\n`;
+    await writeFile(path.join(this.dir, name), body);
+  }
+}
+
+/** MAIL_TRANSPORT=console (default) or file, with MAIL_DIR for the file transport. */
+export function mailTransportFromEnv(env = process.env): MailTransport {
+  switch (env.MAIL_TRANSPORT ?? 'console') {
+    case 'console': return new ConsoleTransport();
+    case 'file': return new FileTransport(env.MAIL_DIR ?? 'mail');
+    default: throw new Error(`Unknown MAIL_TRANSPORT ${env.MAIL_TRANSPORT}`);
+  }
+}
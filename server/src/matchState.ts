@@ -0,0 +1,47 @@
+// Match lifecycle: the allowed status transitions and a versioned update that every
+// match write goes through, so concurrent requests cannot apply the same change twice.
+import { MatchStatus, Prisma } from '@prisma/client';
+import { playerInclude } from './dto.js';
+
+// Thrown when a write loses a race or targets a state the match can no longer be in; sent as 409.
+export class ConflictError extends Error {}
+
+const TRANSITIONS: Record<MatchStatus, MatchStatus[]> = {
+  [MatchStatus.SCHEDULED]: [MatchStatus.ONGOING, MatchStatus.CANCELLED],
+  [MatchStatus.ONGOING]: [MatchStatus.FINISHED, MatchStatus.VOID],
+  [MatchStatus.FINISHED]: [],
+  [MatchStatus.CANCELLED]: [],
+  [MatchStatus.VOID]: [],
+};
+
+export const ACTIVE_STATUSES = [MatchStatus.SCHEDULED, MatchStatus.ONGOING];
+
+export function canTransition(from: MatchStatus, to: MatchStatus) {
+  return TRANSITIONS[from].includes(to);
+}
+
+type Versioned = { id: string; status: MatchStatus; version: number };
+
+/**
+ * Writes `data` to the match only if it is still at `match.version`, optionally moving it
+ * to status `to`. Must run inside a transaction so the caller's other writes roll back
+ * with it when a ConflictError is thrown.
+ */
+export async function updateMatch(tx: Prisma.TransactionClient, match: Versioned, data: Prisma.MatchUncheckedUpdateManyInput, to?: MatchStatus) {
+  if (to && !canTransition(match.status, to)) {
+    throw new ConflictError(`Cannot move a ${match.status} match to ${to}`);
+  }
+  const { count } = await tx.match.updateMany({
+    where: { id: match.id, version: match.version },
+    data: { ...data, ...(to ? { status: to } : {}), version: { increment: 1 } },
+  });
+  if (count === 0) throw new ConflictError('Match was changed by someone else; reload and try again');
+  return tx.match.findUniqueOrThrow({ where: { id: match.id }, include: playerInclude });
+}
+
+// Rejects a write made against a stale copy when the client sent the version it saw.
+export function checkVersion(match: Versioned, expected: number | undefined) {
+  if (expected !== undefined && expected !== match.version) {
+    throw new ConflictError('Match was changed by someone else; reload and try again');
+  }
+}
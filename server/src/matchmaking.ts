@@ -0,0 +1,201 @@
+// Pairing engine: picks foursomes from the waiting queue and splits them into teams
+// by scoring every candidate against wait time, rating balance and session history.
+
+export type MatchmakingWeights = {
+  wait: number;
+  balance: number;
+  partnerRepeat: number;
+  opponentRepeat: number;
+  partnerRequest: number;
+};
+
+export const DEFAULT_WEIGHTS: MatchmakingWeights = {
+  wait: 1,
+  balance: 1,
+  partnerRepeat: 2,
+  opponentRepeat: 0.5,
+  partnerRequest: 3,
+};
+
+// How many players from the head of the queue are considered for each court.
+export const DEFAULT_WINDOW = 8;
+
+// `partnerId` is a "play with" request; with `fixed` the two must always play together as a team.
+export type Candidate = { id: string; rating: number; partnerId?: string | null; fixed?: boolean };
+export type PastMatch = { p1Id: string; p2Id: string; p3Id: string; p4Id: string };
+export type PlannedMatch = { team1: [Candidate, Candidate]; team2: [Candidate, Candidate]; cost: number };
+
+export type PlanOptions = {
+  courts: number;
+  weights?: Partial<MatchmakingWeights>;
+  seed?: number | null;
+  window?: number;
+};
+
+// mulberry32: small, fast and good enough for tie-breaking.
+export function seededRandom(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pairKey(a: string, b: string) { return a < b ? `${a}|${b}` : `${b}|${a}`; }
+
+export class PairingHistory {
+  private partners = new Map<string, number>();
+  private opponents = new Map<string, number>();
+
+  constructor(matches: PastMatch[] = []) {
+    matches.forEach(m => this.record([m.p1Id, m.p2Id], [m.p3Id, m.p4Id]));
+  }
+
+  record(team1: [string, string], team2: [string, string]) {
+    this.bump(this.partners, pairKey(team1[0], team1[1]));
+    this.bump(this.partners, pairKey(team2[0], team2[1]));
+    for (const a of team1) for (const b of team2) this.bump(this.opponents, pairKey(a, b));
+  }
+
+  partnerCount(a: string, b: string) { return this.partners.get(pairKey(a, b)) ?? 0; }
+  opponentCount(a: string, b: string) { return this.opponents.get(pairKey(a, b)) ?? 0; }
+
+  private bump(map: Map<string, number>, key: string) { map.set(key, (map.get(key) ?? 0) + 1); }
+}
+
+function splitCost(team1: [Candidate, Candidate], team2: [Candidate, Candidate], history: PairingHistory, w: MatchmakingWeights) {
+  const avg1 = (team1[0].rating + team1[1].rating) / 2;
+  const avg2 = (team2[0].rating + team2[1].rating) / 2;
+  // Balance is measured per 100 rating points so it sits on the same scale as the other terms.
+  const balance = Math.abs(avg1 - avg2) / 100;
+  const partners = history.partnerCount(team1[0].id, team1[1].id) + history.partnerCount(team2[0].id, team2[1].id);
+  let opponents = 0;
+  for (const a of team1) for (const b of team2) opponents += history.opponentCount(a.id, b.id);
+  // Each granted "play with" request earns a discount.
+  let requests = 0;
+  for (const [a, b] of [team1, team2]) {
+    if (a.partnerId === b.id) requests++;
+    if (b.partnerId === a.id) requests++;
+  }
+  return w.balance * balance + w.partnerRepeat * partners + w.opponentRepeat * opponents - w.partnerRequest * requests;
+}
+
+function fixedPartner(c: Candidate) { return c.fixed && c.partnerId ? c.partnerId : null; }
+
+// A foursome may only contain half of a fixed pair if the other half is there too,
+// and a split must keep every fixed pair on the same team.
+function keepsFixedPairs(group: Candidate[]) {
+  const ids = new Set(group.map(c => c.id));
+  return group.every(c => { const p = fixedPartner(c); return !p || ids.has(p); });
+}
+function teamKeepsFixedPair(a: Candidate, b: Candidate) {
+  const pa = fixedPartner(a);
+  const pb = fixedPartner(b);
+  return (!pa || pa === b.id) && (!pb || pb === a.id);
+}
+function splitKeepsFixedPairs(team1: Candidate[], team2: Candidate[]) {
+  return teamKeepsFixedPair(team1[0], team1[1]) && teamKeepsFixedPair(team2[0], team2[1]);
+}
+
+// The head of the queue plus the fixed partners of anyone in it, wherever they are queued.
+function withFixedPartners(remaining: Candidate[], windowSize: number) {
+  const pool = remaining.slice(0, windowSize);
+  const ids = new Set(pool.map(c => c.id));
+  for (const c of [...pool]) {
+    const partnerId = fixedPartner(c);
+    if (!partnerId || ids.has(partnerId)) continue;
+    const partner = remaining.find(r => r.id === partnerId);
+    if (partner) { pool.push(partner); ids.add(partner.id); }
+  }
+  return pool;
+}
+
+// The three ways to split four players into two teams of two.
+function splits(g: Candidate[]): [[Candidate, Candidate], [Candidate, Candidate]][] {
+  return [
+    [[g[0], g[1]], [g[2], g[3]]],
+    [[g[0], g[2]], [g[1], g[3]]],
+    [[g[0], g[3]], [g[1], g[2]]],
+  ];
+}
+
+function combinations(n: number, k: number): number[][] {
+  const out: number[][] = [];
+  const pick: number[] = [];
+  (function walk(start: number) {
+    if (pick.length === k) { out.push([...pick]); return; }
+    for (let i = start; i <= n - (k - pick.length); i++) {
+      pick.push(i);
+      walk(i + 1);
+      pick.pop();
+    }
+  })(0);
+  return out;
+}
+
+/**
+ * Plans up to `courts` matches from `queue`, which must already be in queue order
+ * (longest waiting first). Each court takes the cheapest foursome from the first
+ * `window` remaining players; ties are broken by the seeded RNG so results are
+ * reproducible when a seed is given.
+ */
+export function planMatches(queue: Candidate[], history: PastMatch[], options: PlanOptions): PlannedMatch[] {
+  const w = { ...DEFAULT_WEIGHTS, ...options.weights };
+  const windowSize = Math.max(4, options.window ?? DEFAULT_WINDOW);
+  const rng = options.seed == null ? Math.random : seededRandom(options.seed);
+  const pairing = new PairingHistory(history);
+  const remaining = [...queue];
+  const planned: PlannedMatch[] = [];
+
+  while (planned.length < options.courts && remaining.length >= 4) {
+    const pool = withFixedPartners(remaining, windowSize);
+    let best: { idx: number[]; split: [[Candidate, Candidate], [Candidate, Candidate]]; cost: number; tie: number } | null = null;
+    for (const idx of combinations(pool.length, 4)) {
+      const group = idx.map(i => pool[i]);
+      if (!keepsFixedPairs(group)) continue;
+      // The head four cost nothing; every place further back adds one unit of wait cost.
+      const waitCost = idx.reduce((s, i) => s + remaining.indexOf(pool[i]), 0) - 6;
+      for (const split of splits(group)) {
+        if (!splitKeepsFixedPairs(split[0], split[1])) continue;
+        const cost = w.wait * waitCost + splitCost(split[0], split[1], pairing, w);
+        const tie = rng();
+        if (!best || cost < best.cost - 1e-9 || (Math.abs(cost - best.cost) <= 1e-9 && tie < best.tie)) {
+          best = { idx, split, cost, tie };
+        }
+      }
+    }
+    if (!best) break;
+    planned.push({ team1: best.split[0], team2: best.split[1], cost: best.cost });
+    pairing.record([best.split[0][0].id, best.split[0][1].id], [best.split[1][0].id, best.split[1][1].id]);
+    const taken = new Set(best.idx.map(i => pool[i].id));
+    for (let i = remaining.length - 1; i >= 0; i--) if (taken.has(remaining[i].id)) remaining.splice(i, 1);
+  }
+  return planned;
+}
+
+/**
+ * King of the court: `kings` hold the court and need two challengers. Picks the cheapest
+ * pair from the head of `queue` by wait, balance against the kings and history.
+ */
+export function planChallengers(kings: [Candidate, Candidate], queue: Candidate[], history: PastMatch[], options: Omit<PlanOptions, 'courts'>): PlannedMatch | null {
+  const w = { ...DEFAULT_WEIGHTS, ...options.weights };
+  const rng = options.seed == null ? Math.random : seededRandom(options.seed);
+  const pairing = new PairingHistory(history);
+  const pool = withFixedPartners(queue, Math.max(2, options.window ?? DEFAULT_WINDOW));
+  let best: PlannedMatch & { tie: number } | null = null;
+  for (const [i, j] of combinations(pool.length, 2)) {
+    const team: [Candidate, Candidate] = [pool[i], pool[j]];
+    if (!teamKeepsFixedPair(team[0], team[1])) continue;
+    // The head two cost nothing, as in planMatches.
+    const waitCost = queue.indexOf(team[0]) + queue.indexOf(team[1]) - 1;
+    const cost = w.wait * waitCost + splitCost(kings, team, pairing, w);
+    const tie = rng();
+    if (!best || cost < best.cost - 1e-9 || (Math.abs(cost - best.cost) <= 1e-9 && tie < best.tie)) {
+      best = { team1: kings, team2: team, cost, tie };
+    }
+  }
+  return best && { team1: best.team1, team2: best.team2, cost: best.cost };
+}
@@ -0,0 +1,58 @@
+// Bulk member registration from CSV: parsing and row-by-row validation, so a dry run can
+// report every problem in the file before anything is written.
+import { parseString } from 'fast-csv';
+import { z } from 'zod';
+import { DEFAULT_RATING } from './rating.js';
+
+export type MemberRow = {
+  line: number;
+  email: string;
+  username: string;
+  rating: number;
+  role: 'PLAYER' | 'ORGANIZER';
+  password: string | null;
+  errors: string[];
+};
+
+export function readCsv(csv: string): Promise<Record<string, string>[]> {
+  return new Promise((resolve, reject) => {
+    const rows: Record<string, string>[] = [];
+    parseString(csv, { headers: (h: (string | null | undefined)[]) => h.map(x => x?.trim().toLowerCase()), ignoreEmpty: true, trim: true })
+      .on('error', reject)
+      .on('data', row => rows.push(row))
+      .on('end', () => resolve(rows));
+  });
+}
+
+const emailSchema = z.string().email();
+
+/**
+ * Checks each row on its own and against the rest of the file and the existing members.
+ * `line` is the line number in the file, counting the header as line 1.
+ */
+export function validateMembers(rows: Record<string, string>[], existing: { emails: Set<string>; usernames: Set<string> }): MemberRow[] {
+  const seenEmails = new Set<string>();
+  const seenUsernames = new Set<string>();
+  return rows.map((raw, i) => {
+    const errors: string[] = [];
+    const email = (raw.email ?? '').toLowerCase();
+    const username = raw.username ?? '';
+    const rating = raw.rating ? Number(raw.rating) : DEFAULT_RATING;
+    const role = (raw.role || 'PLAYER').toUpperCase();
+    const password = raw.password || null;
+
+    if (!emailSchema.safeParse(email).success) errors.push('Invalid email');
+    else if (existing.emails.has(email)) errors.push('Email is already registered');
+    else if (seenEmails.has(email)) errors.push('Email appears earlier in the file');
+    if (username.length < 3) errors.push('Username must be at least 3 characters');
+    else if (existing.usernames.has(username)) errors.push('Username is already taken');
+    else if (seenUsernames.has(username)) errors.push('Username appears earlier in the file');
+    if (!Number.isFinite(rating) || rating < 0 || rating > 3000) errors.push('Rating must be a number between 0 and 3000');
+    if (role !== 'PLAYER' && role !== 'ORGANIZER') errors.push('Role must be PLAYER or ORGANIZER');
+    if (password !== null && password.length < 6) errors.push('Password must be at least 6 characters');
+
+    seenEmails.add(email);
+    seenUsernames.add(username);
+    return { line: i + 2, email, username, rating, role: role as MemberRow['role'], password, errors };
+  });
+}
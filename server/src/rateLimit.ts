@@ -0,0 +1,35 @@
+// In-memory sliding-window limiter. Good enough for a single server process; counts are
+// lost on restart.
+
+export class RateLimiter {
+  private hits = new Map<string, number[]>();
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  // Milliseconds until `key` may try again, or 0 if it is under the limit.
+  retryAfter(key: string, now = Date.now()) {
+    const recent = this.recent(key, now);
+    return recent.length < this.limit ? 0 : recent[0] + this.windowMs - now;
+  }
+
+  hit(key: string, now = Date.now()) {
+    const recent = this.recent(key, now);
+    recent.push(now);
+    this.hits.set(key, recent);
+    if (this.hits.size > 10_000) this.prune(now);
+  }
+
+  reset(key: string) {
+    this.hits.delete(key);
+  }
+
+  private recent(key: string, now: number) {
+    return (this.hits.get(key) ?? []).filter(t => t > now - this.windowMs);
+  }
+
+  private prune(now: number) {
+    for (const [key, times] of this.hits) {
+      if (times.every(t => t <= now - this.windowMs)) this.hits.delete(key);
+    }
+  }
+}
@@ -0,0 +1,135 @@
+// Doubles rating systems. Each system rates one match at a time from the players' current
+// state, so the same code serves live results and the full replay in recalculateRatings.
+
+export type PlayerRating = { id: string; rating: number; rd: number; volatility: number; games: number };
+export type RatingUpdate = { id: string; rating: number; rd: number; volatility: number; change: number };
+
+export type RatingConfig = {
+  system: 'elo' | 'glicko2';
+  k: number;
+  // Players with fewer than provisionalGames rated matches move faster so they settle sooner.
+  provisionalK: number;
+  provisionalGames: number;
+  // Glicko-2 system constant; lower values keep volatility steadier.
+  tau: number;
+};
+
+export const DEFAULT_RATING = 1200;
+export const DEFAULT_RD = 350;
+export const DEFAULT_VOLATILITY = 0.06;
+
+export const DEFAULT_RATING_CONFIG: RatingConfig = {
+  system: 'elo',
+  k: 32,
+  provisionalK: 48,
+  provisionalGames: 10,
+  tau: 0.5,
+};
+
+export function ratingConfigFromEnv(env = process.env): RatingConfig {
+  const num = (v: string | undefined, fallback: number) => (v && !Number.isNaN(Number(v)) ? Number(v) : fallback);
+  return {
+    system: env.RATING_SYSTEM === 'glicko2' ? 'glicko2' : 'elo',
+    k: num(env.RATING_K, DEFAULT_RATING_CONFIG.k),
+    provisionalK: num(env.RATING_PROVISIONAL_K, DEFAULT_RATING_CONFIG.provisionalK),
+    provisionalGames: num(env.RATING_PROVISIONAL_GAMES, DEFAULT_RATING_CONFIG.provisionalGames),
+    tau: num(env.RATING_TAU, DEFAULT_RATING_CONFIG.tau),
+  };
+}
+
+export function expectedScore(ratingA: number, ratingB: number) {
+  return 1 / (1 + Math.pow(10, (ratingB - ratingA) / 400));
+}
+
+export function eloUpdate(current: number, expected: number, score: number, k = 32) {
+  return current + k * (score - expected);
+}
+
+export type Teams = [[PlayerRating, PlayerRating], [PlayerRating, PlayerRating]];
+
+// Per-player doubles Elo: each player is measured against the opposing team's average,
+// so the stronger partner gains less from a win and loses more from a loss.
+function rateElo(teams: Teams, winnerTeam: number, config: RatingConfig, multiplier: number): RatingUpdate[] {
+  return teams.flatMap((team, t) => {
+    const opponents = teams[1 - t];
+    const oppAvg = (opponents[0].rating + opponents[1].rating) / 2;
+    const score = winnerTeam === t + 1 ? 1 : 0;
+    return team.map(p => {
+      const k = (p.games < config.provisionalGames ? config.provisionalK : config.k) * multiplier;
+      const rating = eloUpdate(p.rating, expectedScore(p.rating, oppAvg), score, k);
+      return { id: p.id, rating, rd: p.rd, volatility: p.volatility, change: rating - p.rating };
+    });
+  });
+}
+
+const GLICKO_SCALE = 173.7178;
+const GLICKO_CENTER = 1500;
+
+function g(phi: number) { return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI)); }
+
+// One Glicko-2 rating period containing a single game against `opponent`.
+function glickoGame(p: PlayerRating, opponent: { rating: number; rd: number }, score: number, tau: number) {
+  const mu = (p.rating - GLICKO_CENTER) / GLICKO_SCALE;
+  const phi = p.rd / GLICKO_SCALE;
+  const muJ = (opponent.rating - GLICKO_CENTER) / GLICKO_SCALE;
+  const gJ = g(opponent.rd / GLICKO_SCALE);
+  const e = 1 / (1 + Math.exp(-gJ * (mu - muJ)));
+  const v = 1 / (gJ * gJ * e * (1 - e));
+  const delta = v * gJ * (score - e);
+
+  // Volatility via the Illinois algorithm (Glickman, step 5).
+  const a = Math.log(p.volatility * p.volatility);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * Math.pow(phi * phi + v + ex, 2)) - (x - a) / (tau * tau);
+  };
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * tau) < 0) k++;
+    B = a - k * tau;
+  }
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > 1e-6) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) { A = B; fA = fB; } else { fA = fA / 2; }
+    B = C; fB = fC;
+  }
+  const volatility = Math.exp(A / 2);
+
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+  const phiNew = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const muNew = mu + phiNew * phiNew * gJ * (score - e);
+  return {
+    rating: GLICKO_SCALE * muNew + GLICKO_CENTER,
+    rd: Math.min(DEFAULT_RD, GLICKO_SCALE * phiNew),
+    volatility,
+  };
+}
+
+// Glicko-2 for doubles: the opposing pair is treated as a single opponent with their
+// average rating and pooled rating deviation.
+function rateGlicko(teams: Teams, winnerTeam: number, config: RatingConfig): RatingUpdate[] {
+  return teams.flatMap((team, t) => {
+    const [o1, o2] = teams[1 - t];
+    const opponent = { rating: (o1.rating + o2.rating) / 2, rd: Math.sqrt((o1.rd * o1.rd + o2.rd * o2.rd) / 2) };
+    const score = winnerTeam === t + 1 ? 1 : 0;
+    return team.map(p => {
+      const next = glickoGame(p, opponent, score, config.tau);
+      return { id: p.id, ...next, change: next.rating - p.rating };
+    });
+  });
+}
+
+/**
+ * Rates one finished match. `multiplier` scales the Elo K-factor (margin of victory);
+ * Glicko-2 ignores it because its step size already comes from rating deviation.
+ */
+export function rateMatch(teams: Teams, winnerTeam: number, config: RatingConfig, multiplier = 1): RatingUpdate[] {
+  return config.system === 'glicko2' ? rateGlicko(teams, winnerTeam, config) : rateElo(teams, winnerTeam, config, multiplier);
+}
@@ -0,0 +1,46 @@
+// Game score validation for best-of-3 rally-point badminton (games to 21, win by 2, capped at 30).
+
+export type GameScore = [number, number];
+
+export function validGame([a, b]: GameScore) {
+  if (!Number.isInteger(a) || !Number.isInteger(b) || a < 0 || b < 0) return false;
+  const hi = Math.max(a, b);
+  const lo = Math.min(a, b);
+  if (hi === 21) return lo <= 19;
+  if (hi > 21 && hi < 30) return hi - lo === 2;
+  if (hi === 30) return lo === 28 || lo === 29;
+  return false;
+}
+
+// Returns the winning team (1 or 2), or an error message when the scores are not a valid match.
+export function matchWinner(games: GameScore[]): { winner: 1 | 2 } | { error: string } {
+  if (games.length < 2 || games.length > 3) return { error: 'A match is best of 3 games' };
+  let won1 = 0;
+  let won2 = 0;
+  for (const [i, game] of games.entries()) {
+    if (won1 === 2 || won2 === 2) return { error: `Game ${i + 1} was played after the match was decided` };
+    if (!validGame(game)) return { error: `Game ${i + 1} score ${game[0]}-${game[1]} is not a valid rally-point score` };
+    if (game[0] > game[1]) won1++; else won2++;
+  }
+  if (won1 < 2 && won2 < 2) return { error: 'Neither team won two games' };
+  return { winner: won1 === 2 ? 1 : 2 };
+}
+
+// Total point difference from team 1's point of view.
+export function pointDifference(games: GameScore[]) {
+  return games.reduce((s, [a, b]) => s + a - b, 0);
+}
+
+export function formatScores(games: GameScore[]) {
+  return games.map(([a, b]) => `${a}-${b}`).join(',');
+}
+
+export function parseScores(scores: string | null): GameScore[] {
+  if (!scores) return [];
+  return scores.split(',').map(g => g.split('-').map(Number) as GameScore);
+}
+
+// Scales the Elo K-factor by how convincing the win was: 1 for a one-point match, up to 1.5 for a rout.
+export function marginMultiplier(games: GameScore[]) {
+  return 1 + Math.min(Math.abs(pointDifference(games)), 30) / 60;
+}
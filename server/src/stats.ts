@@ -0,0 +1,73 @@
+// Player statistics derived from finished matches (p1+p2 vs p3+p4).
+
+export type StatsMatch = {
+  id: string;
+  sessionId: string;
+  p1Id: string;
+  p2Id: string;
+  p3Id: string;
+  p4Id: string;
+  winnerTeam: number | null;
+  endedAt: Date | null;
+  createdAt: Date;
+};
+
+export type HeadToHead = { userId: string; games: number; wins: number; winRate: number };
+
+// Partners and opponents need this many shared games before they can be called best or worst.
+export const MIN_GAMES_FOR_RANKING = 2;
+
+function tally(map: Map<string, { games: number; wins: number }>, userId: string, won: boolean) {
+  const t = map.get(userId) ?? { games: 0, wins: 0 };
+  t.games++;
+  if (won) t.wins++;
+  map.set(userId, t);
+}
+
+function ranked(map: Map<string, { games: number; wins: number }>): HeadToHead[] {
+  return [...map.entries()]
+    .map(([userId, t]) => ({ userId, games: t.games, wins: t.wins, winRate: t.wins / t.games }))
+    .sort((a, b) => b.winRate - a.winRate || b.games - a.games);
+}
+
+function bestAndWorst(list: HeadToHead[]) {
+  const eligible = list.filter(h => h.games >= MIN_GAMES_FOR_RANKING);
+  return { best: eligible.slice(0, 3), worst: eligible.slice(-3).reverse() };
+}
+
+/** `matches` must be the player's FINISHED matches, oldest first. */
+export function playerStats(userId: string, matches: StatsMatch[]) {
+  const partners = new Map<string, { games: number; wins: number }>();
+  const opponents = new Map<string, { games: number; wins: number }>();
+  const perSession = new Map<string, { games: number; wins: number }>();
+  let wins = 0;
+  let longestWin = 0;
+  let run = 0;
+  let current: { type: 'W' | 'L'; length: number } | null = null;
+
+  for (const m of matches) {
+    const team = m.p1Id === userId || m.p2Id === userId ? 1 : 2;
+    const won = m.winnerTeam === team;
+    const partner = team === 1 ? (m.p1Id === userId ? m.p2Id : m.p1Id) : (m.p3Id === userId ? m.p4Id : m.p3Id);
+    const against = team === 1 ? [m.p3Id, m.p4Id] : [m.p1Id, m.p2Id];
+    tally(partners, partner, won);
+    against.forEach(o => tally(opponents, o, won));
+    tally(perSession, m.sessionId, won);
+
+    if (won) wins++;
+    run = won ? run + 1 : 0;
+    longestWin = Math.max(longestWin, run);
+    const type = won ? 'W' : 'L';
+    current = current && current.type === type ? { type, length: current.length + 1 } : { type, length: 1 };
+  }
+
+  const partnerList = ranked(partners);
+  const opponentList = ranked(opponents);
+  return {
+    record: { played: matches.length, wins, losses: matches.length - wins },
+    streaks: { current, longestWin },
+    sessions: [...perSession.entries()].map(([sessionId, t]) => ({ sessionId, games: t.games, wins: t.wins })),
+    partners: bestAndWorst(partnerList),
+    opponents: bestAndWorst(opponentList),
+  };
+}
@@ -0,0 +1,58 @@
+// Court skill tiers: rating bands put each player in a tier, and tiered courts are filled
+// from their own tier first, overflowing to others by the session's rule.
+import { SkillTier, TierOverflow } from '@prisma/client';
+import { Candidate, MatchmakingWeights, PastMatch, PlannedMatch, planMatches } from './matchmaking.js';
+
+export type TierBands = { advancedMinRating: number; intermediateMinRating: number };
+
+export function tierOf(rating: number, bands: TierBands): SkillTier {
+  if (rating >= bands.advancedMinRating) return SkillTier.ADVANCED;
+  if (rating >= bands.intermediateMinRating) return SkillTier.INTERMEDIATE;
+  return SkillTier.BEGINNER;
+}
+
+const LADDER = [SkillTier.BEGINNER, SkillTier.INTERMEDIATE, SkillTier.ADVANCED];
+
+// The tiers to draw from in turn until a foursome can be made; null means anyone.
+export function fillStages(tier: SkillTier | null, overflow: TierOverflow): (SkillTier[] | null)[] {
+  if (!tier) return [null];
+  const i = LADDER.indexOf(tier);
+  const withNeighbours = LADDER.filter((_, j) => Math.abs(i - j) <= 1);
+  switch (overflow) {
+    case TierOverflow.STRICT: return [[tier]];
+    case TierOverflow.ADJACENT: return [[tier], withNeighbours];
+    case TierOverflow.ANY: return [[tier], withNeighbours, null];
+  }
+}
+
+export type TieredCourt = { number: number; tier: SkillTier | null };
+export type TierOptions = {
+  bands: TierBands;
+  overflow: TierOverflow;
+  weights?: Partial<MatchmakingWeights>;
+  seed?: number | null;
+};
+
+/**
+ * Plans one match per court. Tiered courts are filled before mixed ones so their players
+ * are not used up elsewhere first. A court that cannot be filled is left out.
+ */
+export function planTieredCourts(courts: TieredCourt[], queue: Candidate[], history: PastMatch[], options: TierOptions) {
+  const ordered = [...courts.filter(c => c.tier), ...courts.filter(c => !c.tier)];
+  const past = [...history];
+  let remaining = [...queue];
+  const planned: { court: number; plan: PlannedMatch }[] = [];
+  for (const [k, court] of ordered.entries()) {
+    for (const stage of fillStages(court.tier, options.overflow)) {
+      const candidates = stage ? remaining.filter(c => stage.includes(tierOf(c.rating, options.bands))) : remaining;
+      const [plan] = planMatches(candidates, past, { courts: 1, weights: options.weights, seed: options.seed == null ? null : options.seed + k });
+      if (!plan) continue;
+      planned.push({ court: court.number, plan });
+      const ids = [...plan.team1, ...plan.team2].map(c => c.id);
+      past.push({ p1Id: ids[0], p2Id: ids[1], p3Id: ids[2], p4Id: ids[3] });
+      remaining = remaining.filter(c => !ids.includes(c.id));
+      break;
+    }
+  }
+  return planned;
+}
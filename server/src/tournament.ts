@@ -0,0 +1,147 @@
+// Fixture generation and standings for doubles tournaments. Pure functions; the routes in
+// app.ts persist the results as TournamentFixture rows and play them as ordinary matches.
+
+export type FixtureDraft = { round: number; slot: number; groupNo: number | null; team1Id: string | null; team2Id: string | null; winnerId: string | null };
+
+// Circle method: every team meets every other once. With an odd count one team sits out each round.
+export function roundRobinRounds(teamIds: string[]): [string, string][][] {
+  const teams: (string | null)[] = [...teamIds];
+  if (teams.length % 2) teams.push(null);
+  const n = teams.length;
+  const rounds: [string, string][][] = [];
+  for (let r = 0; r < n - 1; r++) {
+    const pairs: [string, string][] = [];
+    for (let i = 0; i < n / 2; i++) {
+      const a = teams[i];
+      const b = teams[n - 1 - i];
+      if (a && b) pairs.push(r % 2 ? [b, a] : [a, b]);
+    }
+    rounds.push(pairs);
+    // Keep the first team fixed and rotate the rest.
+    teams.splice(1, 0, teams.pop()!);
+  }
+  return rounds;
+}
+
+// Snake-deals seeded teams into groups so each group gets a fair spread: 1,4,5 / 2,3,6 ...
+export function snakeGroups(seededTeamIds: string[], groups: number) {
+  const out: string[][] = Array.from({ length: groups }, () => []);
+  seededTeamIds.forEach((id, i) => {
+    const lap = Math.floor(i / groups);
+    const pos = i % groups;
+    out[lap % 2 ? groups - 1 - pos : pos].push(id);
+  });
+  return out;
+}
+
+export function roundRobinFixtures(seededTeamIds: string[], groups: number): FixtureDraft[] {
+  return snakeGroups(seededTeamIds, groups).flatMap((group, g) =>
+    roundRobinRounds(group).flatMap((pairs, r) =>
+      pairs.map(([team1Id, team2Id], slot) => ({ round: r + 1, slot, groupNo: g + 1, team1Id, team2Id, winnerId: null }))));
+}
+
+// Standard bracket order so the top two seeds can only meet in the final: 1v8, 4v5, 2v7, 3v6.
+export function bracketOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const n = order.length * 2;
+    order = order.flatMap(s => [s, n + 1 - s]);
+  }
+  return order;
+}
+
+export function knockoutRounds(teams: number) {
+  return Math.max(1, Math.ceil(Math.log2(teams)));
+}
+
+/**
+ * Every fixture of a single-elimination bracket, later rounds still empty. A missing
+ * opponent in round one is a bye: the fixture is already won and the seeded team is
+ * placed in round two.
+ */
+export function knockoutFixtures(seededTeamIds: string[]): FixtureDraft[] {
+  const rounds = knockoutRounds(seededTeamIds.length);
+  const size = 2 ** rounds;
+  const order = bracketOrder(size);
+  const fixtures: FixtureDraft[] = [];
+  for (let slot = 0; slot < size / 2; slot++) {
+    fixtures.push({
+      round: 1,
+      slot,
+      groupNo: null,
+      team1Id: seededTeamIds[order[slot * 2] - 1] ?? null,
+      team2Id: seededTeamIds[order[slot * 2 + 1] - 1] ?? null,
+      winnerId: null,
+    });
+  }
+  for (let round = 2; round <= rounds; round++) {
+    for (let slot = 0; slot < size / 2 ** round; slot++) fixtures.push({ round, slot, groupNo: null, team1Id: null, team2Id: null, winnerId: null });
+  }
+  for (const f of fixtures.filter(f => f.round === 1 && (!f.team1Id || !f.team2Id))) {
+    f.winnerId = f.team1Id ?? f.team2Id;
+    const next = nextKnockoutSlot(f.round, f.slot);
+    const target = fixtures.find(x => x.round === next.round && x.slot === next.slot);
+    if (target) target[next.side] = f.winnerId;
+  }
+  return fixtures;
+}
+
+// Where the winner of (round, slot) plays next in a knockout bracket.
+export function nextKnockoutSlot(round: number, slot: number) {
+  return { round: round + 1, slot: Math.floor(slot / 2), side: slot % 2 === 0 ? 'team1Id' as const : 'team2Id' as const };
+}
+
+export type PlayedFixture = { team1Id: string | null; team2Id: string | null; winnerId: string | null; scores: string | null };
+export type Standing = {
+  teamId: string;
+  played: number;
+  won: number;
+  lost: number;
+  gamesFor: number;
+  gamesAgainst: number;
+  pointsFor: number;
+  pointsAgainst: number;
+};
+
+function parseGames(scores: string | null) {
+  return scores ? scores.split(',').map(g => g.split('-').map(Number) as [number, number]) : [];
+}
+
+/**
+ * Group table ordered by wins, then head-to-head between two tied teams, then game
+ * difference, point difference and finally seed order (the order of `teamIds`).
+ */
+export function standings(teamIds: string[], fixtures: PlayedFixture[]): Standing[] {
+  const table = new Map<string, Standing>(teamIds.map(teamId => [teamId, { teamId, played: 0, won: 0, lost: 0, gamesFor: 0, gamesAgainst: 0, pointsFor: 0, pointsAgainst: 0 }]));
+  for (const f of fixtures) {
+    if (!f.winnerId || !f.team1Id || !f.team2Id) continue;
+    const t1 = table.get(f.team1Id);
+    const t2 = table.get(f.team2Id);
+    if (!t1 || !t2) continue;
+    t1.played++; t2.played++;
+    if (f.winnerId === f.team1Id) { t1.won++; t2.lost++; } else { t2.won++; t1.lost++; }
+    for (const [a, b] of parseGames(f.scores)) {
+      if (a > b) { t1.gamesFor++; t2.gamesAgainst++; } else { t2.gamesFor++; t1.gamesAgainst++; }
+      t1.pointsFor += a; t1.pointsAgainst += b;
+      t2.pointsFor += b; t2.pointsAgainst += a;
+    }
+  }
+  const headToHead = (a: string, b: string) => {
+    const f = fixtures.find(x => x.winnerId && ((x.team1Id === a && x.team2Id === b) || (x.team1Id === b && x.team2Id === a)));
+    return f ? (f.winnerId === a ? -1 : 1) : 0;
+  };
+  const rows = [...table.values()];
+  return rows.sort((a, b) => {
+    if (b.won !== a.won) return b.won - a.won;
+    const tied = rows.filter(r => r.won === a.won);
+    if (tied.length === 2) {
+      const h = headToHead(a.teamId, b.teamId);
+      if (h) return h;
+    }
+    const games = (b.gamesFor - b.gamesAgainst) - (a.gamesFor - a.gamesAgainst);
+    if (games) return games;
+    const points = (b.pointsFor - b.pointsAgainst) - (a.pointsFor - a.pointsAgainst);
+    if (points) return points;
+    return teamIds.indexOf(a.teamId) - teamIds.indexOf(b.teamId);
+  });
+}
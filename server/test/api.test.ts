@@ -0,0 +1,294 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fc from 'fast-check';
+import { TestApp, startTestApp } from './harness.js';
+
+let t: TestApp;
+let organizer: { token: string; user: any };
+const players: { token: string; user: any }[] = [];
+
+before(async () => {
+  t = await startTestApp();
+  organizer = await t.signup('organizer');
+  for (let i = 0; i < 16; i++) players.push(await t.signup(`player${i}`));
+});
+after(() => t?.close());
+
+async function startSession(courts: number, extra: object = {}) {
+  const res = await t.api.post('/api/session/start', { courts, ...extra }, organizer.token);
+  assert.equal(res.status, 200, JSON.stringify(res.body));
+  return res.body;
+}
+async function endSession(sessionId: string) {
+  assert.equal((await t.api.post(`/api/session/${sessionId}/end`, {}, organizer.token)).status, 200);
+}
+async function join(sessionId: string, who: { token: string }[]) {
+  for (const p of who) assert.equal((await t.api.post(`/api/session/${sessionId}/queue/join`, {}, p.token)).status, 200);
+}
+async function activeMatches(sessionId: string) {
+  const res = await t.api.get(`/api/session/${sessionId}/matches`);
+  return (res.body as any[]).filter(m => m.status === 'SCHEDULED' || m.status === 'ONGOING');
+}
+const playerIds = (m: any) => [m.p1Id, m.p2Id, m.p3Id, m.p4Id];
+
+describe('auth', () => {
+  it('makes the first account an admin and later ones players', () => {
+    assert.equal(organizer.user.role, 'ADMIN');
+    assert.equal(players[0].user.role, 'PLAYER');
+    assert.equal(organizer.user.passwordHash, undefined);
+  });
+
+  it('rejects a duplicate username', async () => {
+    const res = await t.api.post('/api/auth/signup', { email: 'other@example.com', username: 'player0', password: 'secret123' });
+    assert.equal(res.status, 400);
+  });
+
+  it('logs in with username or email and rejects a wrong password', async () => {
+    const byName = await t.api.post('/api/auth/login', { emailOrUsername: 'player1', password: 'secret123' });
+    assert.equal(byName.status, 200);
+    assert.ok(byName.body.token && byName.body.refreshToken);
+    const byEmail = await t.api.post('/api/auth/login', { emailOrUsername: 'player1@example.com', password: 'secret123' });
+    assert.equal(byEmail.status, 200);
+    const wrong = await t.api.post('/api/auth/login', { emailOrUsername: 'player1', password: 'nope' });
+    assert.equal(wrong.status, 400);
+  });
+
+  it('rotates refresh tokens and revokes the family when one is reused', async () => {
+    const login = await t.api.post('/api/auth/login', { emailOrUsername: 'player2', password: 'secret123' });
+    const first = await t.api.post('/api/auth/refresh', { refreshToken: login.body.refreshToken });
+    assert.equal(first.status, 200);
+    assert.notEqual(first.body.refreshToken, login.body.refreshToken);
+    assert.equal((await t.api.post('/api/auth/refresh', { refreshToken: login.body.refreshToken })).status, 401);
+    assert.equal((await t.api.post('/api/auth/refresh', { refreshToken: first.body.refreshToken })).status, 401);
+  });
+
+  it('keeps organizer routes from players', async () => {
+    assert.equal((await t.api.post('/api/session/start', { courts: 2 }, players[0].token)).status, 403);
+    assert.equal((await t.api.post('/api/session/start', { courts: 2 })).status, 401);
+  });
+});
+
+describe('queue and match generation', () => {
+  let session: any;
+  before(async () => { session = await startSession(3); });
+  after(() => endSession(session.id));
+
+  it('lets players join once', async () => {
+    await join(session.id, players.slice(0, 14));
+    assert.equal((await t.api.post(`/api/session/${session.id}/queue/join`, {}, players[0].token)).status, 200);
+    const queue = await t.api.get(`/api/session/${session.id}/queue`);
+    assert.equal(queue.body.length, 14);
+  });
+
+  it('fills each open court once and claims the players from the queue', async () => {
+    const res = await t.api.post(`/api/session/${session.id}/generate`, {}, organizer.token);
+    assert.equal(res.status, 200);
+    assert.equal(res.body.length, 3);
+    assert.deepEqual(res.body.map((m: any) => m.court).sort(), [1, 2, 3]);
+    const onCourt = res.body.flatMap(playerIds);
+    assert.equal(new Set(onCourt).size, 12);
+    const queue = await t.api.get(`/api/session/${session.id}/queue`);
+    assert.equal(queue.body.length, 2);
+    assert.ok(queue.body.every((q: any) => !onCourt.includes(q.userId)));
+  });
+
+  it('schedules nothing more while every court is busy', async () => {
+    const res = await t.api.post(`/api/session/${session.id}/generate`, {}, organizer.token);
+    assert.deepEqual(res.body, []);
+  });
+
+  it('refuses to queue a player who is on court', async () => {
+    const [match] = await activeMatches(session.id);
+    const player = players.find(p => p.user.id === match.p1Id)!;
+    assert.equal((await t.api.post(`/api/session/${session.id}/queue/join`, {}, player.token)).status, 409);
+  });
+});
+
+describe('results and ratings', () => {
+  let session: any;
+  let match: any;
+  before(async () => {
+    session = await startSession(1, { autoRequeue: true });
+    await join(session.id, players.slice(0, 4));
+    [match] = (await t.api.post(`/api/session/${session.id}/generate`, {}, organizer.token)).body;
+  });
+  after(() => endSession(session.id));
+
+  it('only takes results for matches in play', async () => {
+    const res = await t.api.post(`/api/match/${match.id}/finish`, { winnerTeam: 1 }, organizer.token);
+    assert.equal(res.status, 409);
+  });
+
+  it('rates the match and requeues the players once an organizer records the result', async () => {
+    const started = await t.api.post(`/api/match/${match.id}/start`, { version: match.version }, organizer.token);
+    assert.equal(started.status, 200);
+    const before = new Map((await t.api.get('/api/leaderboard')).body.map((u: any) => [u.id, u.rating]));
+    const res = await t.api.post(`/api/match/${match.id}/finish`, { scores: [[21, 15], [21, 18]], version: started.body.version }, organizer.token);
+    assert.equal(res.status, 200);
+    assert.equal(res.body.status, 'FINISHED');
+    assert.equal(res.body.winnerTeam, 1);
+
+    const after = new Map((await t.api.get('/api/leaderboard')).body.map((u: any) => [u.id, u.rating]));
+    for (const id of [match.p1Id, match.p2Id]) assert.ok((after.get(id) as number) > (before.get(id) as number));
+    for (const id of [match.p3Id, match.p4Id]) assert.ok((after.get(id) as number) < (before.get(id) as number));
+    const history = await t.prisma.ratingHistory.findMany({ where: { matchId: match.id } });
+    assert.equal(history.length, 4);
+
+    // Auto-requeue put all four back and the free court was refilled straight away.
+    const [next] = await activeMatches(session.id);
+    assert.deepEqual(playerIds(next).sort(), playerIds(match).sort());
+  });
+
+  it('rejects a stale version', async () => {
+    const [next] = await activeMatches(session.id);
+    const res = await t.api.post(`/api/match/${next.id}/start`, { version: next.version - 1 }, organizer.token);
+    assert.equal(res.status, 409);
+  });
+
+  it('has a player report wait for the other team to confirm', async () => {
+    const [next] = await activeMatches(session.id);
+    const started = await t.api.post(`/api/match/${next.id}/start`, {}, organizer.token);
+    const reporter = players.find(p => p.user.id === next.p1Id)!;
+    const opponent = players.find(p => p.user.id === next.p3Id)!;
+    const reported = await t.api.post(`/api/match/${next.id}/finish`, { winnerTeam: 2, version: started.body.version }, reporter.token);
+    assert.equal(reported.body.resultStatus, 'PENDING');
+    assert.equal((await t.api.post(`/api/match/${next.id}/confirm`, {}, reporter.token)).status, 403);
+    const confirmed = await t.api.post(`/api/match/${next.id}/confirm`, {}, opponent.token);
+    assert.equal(confirmed.status, 200);
+    assert.equal(confirmed.body.status, 'FINISHED');
+  });
+
+  it('leaves a disputed result to an organizer', async () => {
+    const [next] = await activeMatches(session.id);
+    const started = await t.api.post(`/api/match/${next.id}/start`, {}, organizer.token);
+    const reporter = players.find(p => p.user.id === next.p1Id)!;
+    const opponent = players.find(p => p.user.id === next.p3Id)!;
+    const reported = await t.api.post(`/api/match/${next.id}/finish`, { winnerTeam: 1, version: started.body.version }, reporter.token);
+    const disputed = await t.api.post(`/api/match/${next.id}/dispute`, { reason: 'We won', version: reported.body.version }, opponent.token);
+    assert.equal(disputed.body.resultStatus, 'DISPUTED');
+    assert.equal((await t.api.post(`/api/match/${next.id}/finish`, { winnerTeam: 1 }, reporter.token)).status, 409);
+    assert.equal((await t.api.post(`/api/match/${next.id}/finish`, { winnerTeam: 2 }, opponent.token)).status, 409);
+    const resolved = await t.api.post(`/api/match/${next.id}/resolve`, { winnerTeam: 2 }, organizer.token);
+    assert.equal(resolved.status, 200);
+    assert.equal(resolved.body.resultStatus, 'CONFIRMED');
+  });
+
+  it('undoes a confirmed result by exactly the logged changes and takes it again through resolve', async () => {
+    const ratings = async () => new Map((await t.api.get('/api/leaderboard')).body.map((u: any) => [u.id, u.rating]));
+    const before = await ratings();
+    const history = await t.prisma.ratingHistory.findMany({ where: { matchId: match.id } });
+    const current = await t.prisma.match.findUniqueOrThrow({ where: { id: match.id } });
+    assert.equal((await t.api.post(`/api/match/${match.id}/undo-result`, {}, players[0].token)).status, 403);
+
+    const undone = await t.api.post(`/api/match/${match.id}/undo-result`, { version: current.version }, organizer.token);
+    assert.equal(undone.status, 200);
+    assert.equal(undone.body.resultStatus, 'REENTRY');
+    assert.equal(undone.body.winnerTeam, null);
+    const reverted = await ratings();
+    for (const h of history) assert.ok(Math.abs((reverted.get(h.userId) as number) - ((before.get(h.userId) as number) - h.change)) < 1e-9);
+    assert.equal(await t.prisma.ratingHistory.count({ where: { matchId: match.id } }), 0);
+    assert.equal((await t.api.post(`/api/match/${match.id}/undo-result`, {}, organizer.token)).status, 409);
+
+    const resolved = await t.api.post(`/api/match/${match.id}/resolve`, { winnerTeam: 2 }, organizer.token);
+    assert.equal(resolved.status, 200);
+    assert.equal(resolved.body.resultStatus, 'CONFIRMED');
+    assert.equal(resolved.body.winnerTeam, 2);
+    assert.equal(await t.prisma.ratingHistory.count({ where: { matchId: match.id } }), 4);
+  });
+});
+
+describe('audit log', () => {
+  it('records mutating requests with their actor and keeps secrets out', async () => {
+    const res = await t.api.get('/api/admin/audit?action=signup', organizer.token);
+    assert.equal(res.status, 200);
+    const signup = res.body.entries.find((e: any) => e.actor?.username === 'player0');
+    assert.ok(signup);
+    assert.equal(signup.request.body.password, '[redacted]');
+    assert.equal((await t.api.get('/api/admin/audit', players[0].token)).status, 403);
+  });
+
+  it('records an undo with the reverted changes', async () => {
+    const res = await t.api.get('/api/admin/audit?action=undo-result&failed=false', organizer.token);
+    const [entry] = res.body.entries;
+    assert.equal(entry.entity, 'Match');
+    assert.equal(entry.before.match.resultStatus, 'CONFIRMED');
+    assert.equal(entry.after.reverted.length, 4);
+  });
+
+  it('pages with a cursor', async () => {
+    const first = await t.api.get('/api/admin/audit?limit=2', organizer.token);
+    assert.equal(first.body.entries.length, 2);
+    const second = await t.api.get(`/api/admin/audit?limit=2&cursor=${first.body.nextCursor}`, organizer.token);
+    assert.ok(second.body.entries.every((e: any) => !first.body.entries.some((f: any) => f.id === e.id)));
+  });
+});
+
+describe('exports', () => {
+  it('exports the leaderboard as CSV for organizers only', async () => {
+    const res = await t.api.get('/api/export/leaderboard.csv', organizer.token);
+    assert.equal(res.status, 200);
+    assert.match(res.headers.get('content-type') ?? '', /text\/csv/);
+    const [header, ...rows] = (res.body as string).trim().split('\n');
+    assert.match(header, /username/);
+    assert.ok(rows.some(r => r.includes('player0')));
+    assert.equal((await t.api.get('/api/export/leaderboard.csv', players[0].token)).status, 403);
+  });
+
+  it('exports finished matches as JSON and iCalendar', async () => {
+    const json = await t.api.get('/api/export/matches.json', organizer.token);
+    assert.equal(json.status, 200);
+    assert.ok(Array.isArray(json.body) && json.body.length >= 2);
+    const ics = await t.api.get('/api/export/matches.ics', organizer.token);
+    assert.equal(ics.status, 200);
+    assert.match(ics.body, /^BEGIN:VCALENDAR/);
+    assert.match(ics.body, /BEGIN:VEVENT/);
+  });
+
+  it('takes a bare date in the filter as the whole of that day', async () => {
+    const today = new Date().toISOString().slice(0, 10);
+    const all = await t.api.get('/api/export/matches.json', organizer.token);
+    const upToToday = await t.api.get(`/api/export/matches.json?from=${today}&to=${today}`, organizer.token);
+    assert.equal(upToToday.body.length, all.body.length);
+  });
+
+  it('rejects an unknown format', async () => {
+    assert.equal((await t.api.get('/api/export/matches.xml', organizer.token)).status, 404);
+  });
+});
+
+describe('matchmaking invariants through the API', () => {
+  it('never puts a player in two matches or uses more courts than the session has', async () => {
+    await fc.assert(fc.asyncProperty(
+      fc.integer({ min: 1, max: 4 }),
+      fc.subarray(players.map((_, i) => i)),
+      fc.subarray(players.map((_, i) => i)),
+      async (courts, joining, resting) => {
+        const session = await startSession(courts);
+        try {
+          await join(session.id, joining.map(i => players[i]));
+          for (const i of resting.filter(i => joining.includes(i))) {
+            await t.api.post(`/api/session/${session.id}/queue/pause`, {}, players[i].token);
+          }
+          // A second press finds every court busy or too few players left.
+          for (const press of [1, 2]) {
+            const res = await t.api.post(`/api/session/${session.id}/generate`, {}, organizer.token);
+            assert.equal(res.status, 200);
+            if (press === 2) assert.deepEqual(res.body, []);
+          }
+
+          const matches = await activeMatches(session.id);
+          const waiting = joining.length - resting.filter(i => joining.includes(i)).length;
+          assert.ok(matches.length <= courts);
+          assert.equal(matches.length, Math.min(courts, Math.floor(waiting / 4)));
+          assert.equal(new Set(matches.map(m => m.court)).size, matches.length);
+          const onCourt = matches.flatMap(playerIds);
+          assert.equal(new Set(onCourt).size, onCourt.length);
+          const queue = (await t.api.get(`/api/session/${session.id}/queue`)).body as any[];
+          assert.ok(queue.every(q => !onCourt.includes(q.userId)));
+        } finally {
+          await endSession(session.id);
+        }
+      },
+    ), { numRuns: 15 });
+  });
+});
@@ -0,0 +1,71 @@
+// Integration test harness: a throwaway SQLite database built from the Prisma migrations and
+// the app listening on a random port. Call startTestApp() once per test file; the test
+// runner gives every file its own process, so each file gets its own database.
+import { execFileSync } from 'node:child_process';
+import { once } from 'node:events';
+import { mkdtempSync, rmSync } from 'node:fs';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const SERVER_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+export type ApiResponse = { status: number; body: any; headers: Headers };
+
+export async function startTestApp() {
+  const dir = mkdtempSync(path.join(tmpdir(), 'badminton-test-'));
+  // Set before the app is imported: the Prisma client and auth module read them at load time.
+  Object.assign(process.env, {
+    DATABASE_URL: `file:${path.join(dir, 'test.db')}`,
+    JWT_SECRET: 'test-secret',
+    MAIL_TRANSPORT: 'file',
+    MAIL_DIR: path.join(dir, 'mail'),
+  });
+  try {
+    execFileSync('npx', ['prisma', 'migrate', 'deploy'], { cwd: SERVER_DIR, env: process.env, stdio: 'pipe' });
+  } catch (e) {
+    rmSync(dir, { recursive: true, force: true });
+    throw e;
+  }
+
+  const { app, prisma } = await import('../src/app.js');
+  const server = app.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  async function request(method: string, url: string, body?: unknown, token?: string): Promise<ApiResponse> {
+    const res = await fetch(base + url, {
+      method,
+      headers: { 'content-type': 'application/json', ...(token ? { authorization: `Bearer ${token}` } : {}) },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const text = await res.text();
+    const json = res.headers.get('content-type')?.includes('application/json');
+    return { status: res.status, body: json && text ? JSON.parse(text) : text, headers: res.headers };
+  }
+
+  const api = {
+    get: (url: string, token?: string) => request('GET', url, undefined, token),
+    post: (url: string, body?: unknown, token?: string) => request('POST', url, body ?? {}, token),
+    put: (url: string, body?: unknown, token?: string) => request('PUT', url, body ?? {}, token),
+    delete: (url: string, token?: string) => request('DELETE', url, undefined, token),
+  };
+
+  // The first account signs up as admin, so call this for the organizer before anyone else.
+  async function signup(username: string, password = 'secret123') {
+    const res = await api.post('/api/auth/signup', { email: `${username}@example.com`, username, password });
+    if (res.status !== 200) throw new Error(`signup ${username}: ${res.status} ${JSON.stringify(res.body)}`);
+    return { token: res.body.token as string, user: res.body.user };
+  }
+
+  async function close() {
+    server.close();
+    await prisma.$disconnect();
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  return { api, prisma, signup, close };
+}
+
+export type TestApp = Awaited<ReturnType<typeof startTestApp>>;
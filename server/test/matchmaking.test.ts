@@ -0,0 +1,114 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fc from 'fast-check';
+import { Candidate, PastMatch, PlannedMatch, planChallengers, planMatches } from '../src/matchmaking.js';
+import { planTieredCourts, tierOf } from '../src/tiers.js';
+
+// A queue of distinct players in which some neighbours are fixed pairs.
+const queueArb = fc.array(fc.record({ rating: fc.integer({ min: 800, max: 1800 }), pairWithNext: fc.boolean() }), { maxLength: 24 }).map(rows => {
+  const queue: Candidate[] = rows.map((r, i) => ({ id: `p${i}`, rating: r.rating, partnerId: null, fixed: false }));
+  for (let i = 0; i + 1 < queue.length; i++) {
+    if (rows[i].pairWithNext && !queue[i].fixed) {
+      Object.assign(queue[i], { partnerId: queue[i + 1].id, fixed: true });
+      Object.assign(queue[i + 1], { partnerId: queue[i].id, fixed: true });
+      i++;
+    }
+  }
+  return queue;
+});
+const historyArb = (size: number) => fc.array(fc.uniqueArray(fc.integer({ min: 0, max: Math.max(3, size - 1) }), { minLength: 4, maxLength: 4 }), { maxLength: 10 })
+  .map(ms => ms.map(([a, b, c, d]): PastMatch => ({ p1Id: `p${a}`, p2Id: `p${b}`, p3Id: `p${c}`, p4Id: `p${d}` })));
+const seedArb = fc.integer({ min: 0, max: 1_000_000 });
+
+const playersOf = (plan: PlannedMatch) => [...plan.team1, ...plan.team2];
+
+function assertValidPlans(plans: PlannedMatch[], queue: Candidate[]) {
+  const ids = plans.flatMap(playersOf).map(p => p.id);
+  assert.equal(new Set(ids).size, ids.length, 'a player is in two matches');
+  assert.ok(ids.every(id => queue.some(q => q.id === id)), 'a player was not in the queue');
+  for (const plan of plans) {
+    for (const [a, b] of [plan.team1, plan.team2]) {
+      for (const [p, partner] of [[a, b], [b, a]]) {
+        if (p.fixed && p.partnerId) assert.equal(partner.id, p.partnerId, 'a fixed pair was split');
+      }
+    }
+  }
+}
+
+describe('planMatches', () => {
+  it('never puts a player in two matches and never plans more matches than courts', () => {
+    fc.assert(fc.property(queueArb, fc.integer({ min: 0, max: 6 }), seedArb, (queue, courts, seed) => {
+      const plans = planMatches(queue, [], { courts, seed });
+      assert.ok(plans.length <= courts);
+      assert.ok(plans.length <= Math.floor(queue.length / 4));
+      assertValidPlans(plans, queue);
+    }));
+  });
+
+  it('holds the same invariants with history and custom weights', () => {
+    const weight = fc.integer({ min: 0, max: 20 });
+    const weights = fc.record({ wait: weight, balance: weight, partnerRepeat: weight, opponentRepeat: weight, partnerRequest: weight });
+    fc.assert(fc.property(queueArb.chain(q => fc.tuple(fc.constant(q), historyArb(q.length))), fc.integer({ min: 1, max: 4 }), weights, seedArb, ([queue, history], courts, w, seed) => {
+      assertValidPlans(planMatches(queue, history, { courts, weights: w, seed }), queue);
+    }));
+  });
+
+  it('fills every court it can when nobody is paired', () => {
+    fc.assert(fc.property(fc.integer({ min: 0, max: 24 }), fc.integer({ min: 1, max: 6 }), seedArb, (size, courts, seed) => {
+      const queue = Array.from({ length: size }, (_, i) => ({ id: `p${i}`, rating: 1000 + i * 10 }));
+      assert.equal(planMatches(queue, [], { courts, seed }).length, Math.min(courts, Math.floor(size / 4)));
+    }));
+  });
+
+  it('is reproducible with a seed', () => {
+    fc.assert(fc.property(queueArb, seedArb, (queue, seed) => {
+      const ids = (plans: PlannedMatch[]) => plans.map(p => playersOf(p).map(c => c.id));
+      assert.deepEqual(ids(planMatches(queue, [], { courts: 3, seed })), ids(planMatches(queue, [], { courts: 3, seed })));
+    }));
+  });
+
+  it('takes the head of the queue when only waiting time matters', () => {
+    const queue = Array.from({ length: 8 }, (_, i) => ({ id: `p${i}`, rating: 1000 + (i % 3) * 300 }));
+    const [plan] = planMatches(queue, [], { courts: 1, weights: { wait: 1, balance: 0, partnerRepeat: 0, opponentRepeat: 0, partnerRequest: 0 }, seed: 1 });
+    assert.deepEqual(playersOf(plan).map(p => p.id).sort(), ['p0', 'p1', 'p2', 'p3']);
+  });
+});
+
+describe('planChallengers', () => {
+  it('keeps the kings together and picks two other queued players', () => {
+    const kings: [Candidate, Candidate] = [{ id: 'k1', rating: 1300 }, { id: 'k2', rating: 1300 }];
+    fc.assert(fc.property(queueArb, seedArb, (queue, seed) => {
+      const plan = planChallengers(kings, queue, [], { seed });
+      if (queue.length < 2) return assert.equal(plan, null);
+      if (!plan) return;
+      assert.deepEqual(plan.team1.map(k => k.id), ['k1', 'k2']);
+      assert.notEqual(plan.team2[0].id, plan.team2[1].id);
+      assert.ok(plan.team2.every(c => queue.includes(c)));
+      for (const [p, partner] of [[plan.team2[0], plan.team2[1]], [plan.team2[1], plan.team2[0]]]) {
+        if (p.fixed && p.partnerId) assert.equal(partner.id, p.partnerId);
+      }
+    }));
+  });
+});
+
+describe('planTieredCourts', () => {
+  const bands = { advancedMinRating: 1400, intermediateMinRating: 1150 };
+  const tierArb = fc.constantFrom(null, 'ADVANCED', 'INTERMEDIATE', 'BEGINNER') as fc.Arbitrary<any>;
+
+  it('uses each court and player at most once', () => {
+    fc.assert(fc.property(queueArb, fc.array(tierArb, { maxLength: 5 }), fc.constantFrom('STRICT', 'ADJACENT', 'ANY') as fc.Arbitrary<any>, seedArb, (queue, tiers, overflow, seed) => {
+      const courts = tiers.map((tier, i) => ({ number: i + 1, tier }));
+      const planned = planTieredCourts(courts, queue, [], { bands, overflow, seed });
+      assert.ok(planned.length <= courts.length);
+      assert.equal(new Set(planned.map(p => p.court)).size, planned.length);
+      assertValidPlans(planned.map(p => p.plan), queue);
+    }));
+  });
+
+  it('only seats a strict court from its own tier', () => {
+    fc.assert(fc.property(queueArb, seedArb, (queue, seed) => {
+      const planned = planTieredCourts([{ number: 1, tier: 'ADVANCED' }], queue, [], { bands, overflow: 'STRICT', seed });
+      for (const { plan } of planned) assert.ok(playersOf(plan).every(p => tierOf(p.rating, bands) === 'ADVANCED'));
+    }));
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fc from 'fast-check';
+import { DEFAULT_RATING_CONFIG, PlayerRating, Teams, eloUpdate, expectedScore, rateMatch } from '../src/rating.js';
+
+const player = (id: string, rating: number, games = 20): PlayerRating => ({ id, rating, rd: 350, volatility: 0.06, games });
+const teams = (r1: number, r2: number, r3: number, r4: number, games = 20): Teams => [
+  [player('a', r1, games), player('b', r2, games)],
+  [player('c', r3, games), player('d', r4, games)],
+];
+const change = (updates: { id: string; change: number }[], id: string) => updates.find(u => u.id === id)!.change;
+const rating = fc.integer({ min: 600, max: 2400 });
+
+describe('expectedScore', () => {
+  it('is 0.5 between equal ratings', () => {
+    assert.equal(expectedScore(1200, 1200), 0.5);
+  });
+
+  it('gives 400 points an expectation of about 10 to 1', () => {
+    assert.ok(Math.abs(expectedScore(1600, 1200) - 10 / 11) < 1e-9);
+  });
+
+  it('is symmetric', () => {
+    fc.assert(fc.property(rating, rating, (a, b) => Math.abs(expectedScore(a, b) + expectedScore(b, a) - 1) < 1e-9));
+  });
+});
+
+describe('eloUpdate', () => {
+  it('moves by K times the surprise', () => {
+    assert.equal(eloUpdate(1200, 0.5, 1, 32), 1216);
+    assert.equal(eloUpdate(1200, 0.5, 0, 32), 1184);
+  });
+});
+
+describe('rateMatch (elo)', () => {
+  it('moves winners up and losers down', () => {
+    fc.assert(fc.property(rating, rating, rating, rating, fc.constantFrom(1, 2), (r1, r2, r3, r4, winner) => {
+      const updates = rateMatch(teams(r1, r2, r3, r4), winner, DEFAULT_RATING_CONFIG);
+      const [won, lost] = winner === 1 ? [['a', 'b'], ['c', 'd']] : [['c', 'd'], ['a', 'b']];
+      return won.every(id => change(updates, id) > 0) && lost.every(id => change(updates, id) < 0);
+    }));
+  });
+
+  it('keeps the total unchanged between evenly matched teams', () => {
+    const updates = rateMatch(teams(1200, 1200, 1200, 1200), 1, DEFAULT_RATING_CONFIG);
+    assert.equal(updates.reduce((s, u) => s + u.change, 0), 0);
+  });
+
+  it('rewards an upset more than an expected win', () => {
+    const upset = rateMatch(teams(1000, 1000, 1400, 1400), 1, DEFAULT_RATING_CONFIG);
+    const expected = rateMatch(teams(1400, 1400, 1000, 1000), 1, DEFAULT_RATING_CONFIG);
+    assert.ok(change(upset, 'a') > change(expected, 'a'));
+  });
+
+  it('uses the provisional K for new players', () => {
+    const settled = rateMatch(teams(1200, 1200, 1200, 1200), 1, DEFAULT_RATING_CONFIG);
+    const fresh = rateMatch(teams(1200, 1200, 1200, 1200, 0), 1, DEFAULT_RATING_CONFIG);
+    assert.equal(change(settled, 'a'), DEFAULT_RATING_CONFIG.k / 2);
+    assert.equal(change(fresh, 'a'), DEFAULT_RATING_CONFIG.provisionalK / 2);
+  });
+
+  it('scales with the margin multiplier', () => {
+    const plain = rateMatch(teams(1200, 1300, 1250, 1250), 2, DEFAULT_RATING_CONFIG);
+    const doubled = rateMatch(teams(1200, 1300, 1250, 1250), 2, DEFAULT_RATING_CONFIG, 2);
+    for (const u of plain) assert.ok(Math.abs(change(doubled, u.id) - 2 * u.change) < 1e-9);
+  });
+});
+
+describe('rateMatch (glicko2)', () => {
+  const config = { ...DEFAULT_RATING_CONFIG, system: 'glicko2' as const };
+
+  it('moves winners up and losers down and narrows deviation', () => {
+    const updates = rateMatch(teams(1200, 1250, 1300, 1150), 1, config);
+    assert.ok(change(updates, 'a') > 0 && change(updates, 'b') > 0);
+    assert.ok(change(updates, 'c') < 0 && change(updates, 'd') < 0);
+    assert.ok(updates.every(u => u.rd < 350));
+  });
+});